@@ -1,16 +1,29 @@
 #!/usr/bin/env node
 
 import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
 import { createInterface } from 'node:readline';
+import { pathToFileURL } from 'node:url';
 import pc from 'picocolors';
-import { formatMessage } from './index';
+import {
+  type BoxStyle,
+  createRedactor,
+  createSessionRenderer,
+  type FormatOptions,
+  type PathStyle,
+  registerToolRenderer,
+  type ToolRenderer,
+} from './index';
+import { resolveFormatOptions } from './options';
 
 /**
  * CLI interface for claude-pretty-printer
  * Supports multiple input methods: stdin, file, or inline JSON
  */
 
-async function processStdin() {
+async function processStdin(options: FormatOptions) {
+  // The lines form one session, so tool results can be matched to their calls
+  const session = createSessionRenderer(options);
   const rl = createInterface({
     input: process.stdin,
     output: process.stdout,
@@ -23,7 +36,7 @@ async function processStdin() {
 
       try {
         const message = JSON.parse(line);
-        const formatted = formatMessage(message);
+        const formatted = session.format(message);
         if (formatted.trim()) {
           console.log(formatted);
         }
@@ -37,7 +50,7 @@ async function processStdin() {
   }
 }
 
-function processFile(filePath: string) {
+function processFile(filePath: string, options: FormatOptions) {
   if (!existsSync(filePath)) {
     throw new Error(`File not found: ${filePath}`);
   }
@@ -45,11 +58,12 @@ function processFile(filePath: string) {
   try {
     const content = readFileSync(filePath, 'utf8');
     const lines = content.split('\n').filter((line) => line.trim());
+    const session = createSessionRenderer(options);
 
     for (const line of lines) {
       try {
         const message = JSON.parse(line);
-        const formatted = formatMessage(message);
+        const formatted = session.format(message);
         if (formatted.trim()) {
           console.log(formatted);
         }
@@ -63,10 +77,10 @@ function processFile(filePath: string) {
   }
 }
 
-function processInlineJSON(jsonString: string) {
+function processInlineJSON(jsonString: string, options: FormatOptions) {
   try {
     const message = JSON.parse(jsonString);
-    const formatted = formatMessage(message);
+    const formatted = createSessionRenderer(options).format(message);
     if (formatted.trim()) {
       console.log(formatted);
     }
@@ -75,28 +89,91 @@ function processInlineJSON(jsonString: string) {
   }
 }
 
+/**
+ * Loads tool renderers from a module whose default export is either a function that is
+ * called with registerToolRenderer, or an object mapping tool names to renderers
+ */
+async function loadRenderers(modulePath: string) {
+  const resolved = resolve(modulePath);
+  if (!existsSync(resolved)) {
+    throw new Error(`Renderer module not found: ${modulePath}`);
+  }
+
+  const module = await import(pathToFileURL(resolved).href);
+  const exported = module.default ?? module;
+  if (typeof exported === 'function') {
+    await exported(registerToolRenderer);
+    return;
+  }
+  for (const [name, renderer] of Object.entries(exported)) {
+    registerToolRenderer(name, renderer as ToolRenderer);
+  }
+}
+
 async function main() {
-  const args = process.argv.slice(2);
+  const args: string[] = [];
+  const options: FormatOptions = {};
 
   try {
+    const argv = process.argv.slice(2);
+    for (let i = 0; i < argv.length; i++) {
+      if (argv[i] === '--renderers' || argv[i] === '-r') {
+        const modulePath = argv[++i];
+        if (!modulePath) {
+          throw new Error(`${argv[i - 1]} requires a module path`);
+        }
+        await loadRenderers(modulePath);
+      } else if (argv[i] === '--no-markdown') {
+        options.markdown = false;
+      } else if (argv[i] === '--compact') {
+        options.compact = true;
+      } else if (argv[i] === '--paths') {
+        const style = argv[++i];
+        if (!style) {
+          throw new Error('--paths requires a style');
+        }
+        options.paths = style as PathStyle;
+      } else if (argv[i] === '--no-redact') {
+        options.redact = false;
+      } else if (argv[i] === '--redact') {
+        const pattern = argv[++i];
+        if (!pattern) {
+          throw new Error('--redact requires a pattern');
+        }
+        const redact = typeof options.redact === 'object' ? options.redact : {};
+        options.redact = { ...redact, patterns: [...(redact.patterns ?? []), pattern] };
+      } else if (argv[i] === '--box') {
+        const style = argv[++i];
+        if (!style) {
+          throw new Error('--box requires a style');
+        }
+        options.box = style as BoxStyle;
+      } else {
+        args.push(argv[i]);
+      }
+    }
+    // Report invalid options once rather than for every message
+    resolveFormatOptions(options);
+    createRedactor(options.redact);
+
     if (args.length === 0) {
       // No arguments: read from stdin
       console.log('');
-      await processStdin();
+      await processStdin(options);
     } else if (args.length === 1) {
       const arg = args[0];
 
       if (arg.startsWith('{')) {
         // Inline JSON
         console.log('');
-        processInlineJSON(arg);
+        processInlineJSON(arg, options);
       } else if (arg === '--help' || arg === '-h') {
         // Show help (handled below)
         return;
       } else {
         // File path
         console.log('');
-        processFile(arg);
+        processFile(arg, options);
       }
     } else {
       throw new Error('Too many arguments. Use --help for usage information.');
@@ -164,6 +241,23 @@ if (process.argv.includes('--help') || process.argv.includes('-h')) {
   console.log(pc.bold(pc.blue('▶ OPTIONS:')));
   console.log('');
   console.log(pc.dim('  -h, --help    ') + pc.white('Show this help message'));
+  console.log(
+    pc.dim('  -r, --renderers <module>  ') + pc.white('Load tool renderers from a module')
+  );
+  console.log(pc.dim('  --no-markdown ') + pc.white('Show assistant text as written'));
+  console.log(pc.dim('  --compact     ') + pc.white('Show each message on a single line'));
+  console.log(
+    pc.dim('  --paths <style> ') +
+      pc.white('Show paths relative to the cwd, short with ~, or absolute as given (default)')
+  );
+  console.log(
+    pc.dim('  --redact <pattern> ') + pc.white('Also hide matches of a regular expression')
+  );
+  console.log(pc.dim('  --no-redact   ') + pc.white('Show API keys, tokens and other secrets'));
+  console.log(
+    pc.dim('  --box <style> ') +
+      pc.white('Frame messages: rules, single, double, rounded, heavy or none')
+  );
   console.log('');
 
   console.log(pc.green('✨') + pc.dim(' Happy formatting!'));
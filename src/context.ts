@@ -0,0 +1,203 @@
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { DocumentOptions } from './options';
+import { createRedactor } from './redaction';
+import { StreamAccumulator } from './stream';
+import { toolResultText } from './tools';
+import { applyEdits, isFileEdit } from './tools/edit';
+import { parseReadOutput } from './tools/read';
+import { parseTodos, type Todo } from './tools/todo';
+import type { BetaToolUseBlock } from './types';
+
+/**
+ * A tool invocation remembered from an assistant message
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * A subagent started by a Task (or Agent) tool call, tracked while its messages arrive
+ */
+export interface Subagent {
+  /**
+   * Id of the tool call that started the subagent; its messages carry it as parent_tool_use_id
+   */
+  toolUseId: string;
+  type?: string;
+  description?: string;
+  /**
+   * Nesting level: 1 for subagents of the main agent, 2 for their subagents, and so on
+   */
+  depth: number;
+  messages: number;
+  toolUses: number;
+}
+
+/**
+ * Tool names that start subagents
+ */
+export const SUBAGENT_TOOLS = ['Task', 'Agent'];
+
+/**
+ * State the formatters can draw on beyond the message itself.
+ * A fresh context makes formatting stateless; a session keeps one across messages.
+ */
+export interface FormatContext {
+  options: DocumentOptions;
+
+  /**
+   * Working directory of the session, from the init message
+   */
+  cwd?: string;
+
+  /**
+   * Model of the session, from the init message
+   */
+  model?: string;
+
+  /**
+   * Tool calls seen so far, by tool_use id
+   */
+  toolCalls: Map<string, ToolCall>;
+
+  /**
+   * Last known content of files, by path, from successful Read, Write and Edit results
+   */
+  files: Map<string, string>;
+
+  /**
+   * Subagents seen so far, by the id of the tool call that started them
+   */
+  subagents: Map<string, Subagent>;
+
+  /**
+   * Connection status of MCP servers, by server name, from the init message
+   */
+  mcpServers: Map<string, string>;
+
+  /**
+   * The most recent TodoWrite list
+   */
+  todos?: Todo[];
+
+  /**
+   * Content blocks of the message currently being streamed
+   */
+  stream: StreamAccumulator;
+}
+
+export function createFormatContext(options: DocumentOptions = {}): FormatContext {
+  return {
+    options,
+    toolCalls: new Map(),
+    files: new Map(),
+    subagents: new Map(),
+    mcpServers: new Map(),
+    stream: new StreamAccumulator(createRedactor(options.redact)),
+  };
+}
+
+/**
+ * Records what later messages need to know about a message
+ */
+export function recordMessage(context: FormatContext, message: SDKMessage): void {
+  if (message.type === 'system' && message.subtype === 'init') {
+    context.cwd = message.cwd;
+    context.model = message.model;
+    context.mcpServers = new Map(
+      (message.mcp_servers ?? []).map((server) => [server.name, server.status])
+    );
+  } else if (message.type === 'system' && message.subtype === 'hook_response') {
+    // Hook callbacks carry the cwd when no init message was seen, e.g. in hook logs
+    const cwd = (message as { cwd?: unknown }).cwd;
+    if (!context.cwd && typeof cwd === 'string' && cwd) context.cwd = cwd;
+  } else if (message.type === 'assistant' && Array.isArray(message.message?.content)) {
+    const parent = message.parent_tool_use_id;
+    const subagent = parent ? context.subagents.get(parent) : undefined;
+    if (subagent) subagent.messages++;
+
+    for (const block of message.message.content) {
+      if (block.type === 'tool_use') {
+        const toolUse = block as BetaToolUseBlock;
+        recordToolCall(
+          context,
+          { id: toolUse.id, name: toolUse.name, input: toolUse.input ?? {} },
+          parent
+        );
+      }
+    }
+  } else if (message.type === 'user' && Array.isArray(message.message?.content)) {
+    for (const block of message.message.content) {
+      if (typeof block === 'object' && block.type === 'tool_result' && !block.is_error) {
+        const call = context.toolCalls.get(block.tool_use_id);
+        if (call) recordFileChange(context, call, toolResultText(block.content));
+      }
+    }
+  } else if (message.type === 'stream_event' && message.event.type === 'content_block_stop') {
+    // The formatter has already applied the event to the accumulator
+    const block = context.stream.get(message.event.index);
+    if (block?.type === 'tool_use' && block.id && block.name) {
+      recordToolCall(
+        context,
+        { id: block.id, name: block.name, input: block.input ?? {} },
+        message.parent_tool_use_id
+      );
+    }
+  }
+}
+
+function recordToolCall(context: FormatContext, call: ToolCall, parent: string | null): void {
+  // Streamed calls are seen again in the complete assistant message
+  const isNew = !context.toolCalls.has(call.id);
+  context.toolCalls.set(call.id, call);
+
+  const parentAgent = parent ? context.subagents.get(parent) : undefined;
+  if (parentAgent && isNew) parentAgent.toolUses++;
+
+  if (SUBAGENT_TOOLS.includes(call.name) && isNew) {
+    const { subagent_type: type, description } = call.input;
+    context.subagents.set(call.id, {
+      toolUseId: call.id,
+      type: typeof type === 'string' ? type : undefined,
+      description: typeof description === 'string' ? description : undefined,
+      depth: (parentAgent?.depth ?? (parent ? 1 : 0)) + 1,
+      messages: 0,
+      toolUses: 0,
+    });
+  }
+  if (call.name === 'TodoWrite') {
+    context.todos = parseTodos(call.input) ?? context.todos;
+  }
+}
+
+/**
+ * Tracks file content through successful file tool calls, so later edits can be diffed
+ */
+function recordFileChange(context: FormatContext, call: ToolCall, output: string): void {
+  const { file_path: path, content, offset, limit, edits } = call.input;
+  if (typeof path !== 'string') return;
+
+  let updated: string | undefined;
+  if (call.name === 'Read') {
+    // Partial reads say nothing about the rest of the file
+    if (offset !== undefined || limit !== undefined) return;
+    updated = parseReadOutput(output);
+  } else if (call.name === 'Write') {
+    updated = typeof content === 'string' ? content : undefined;
+  } else if (call.name === 'Edit' || call.name === 'MultiEdit') {
+    const known = context.files.get(path);
+    const applied = call.name === 'Edit' ? [call.input] : edits;
+    if (known === undefined || !Array.isArray(applied) || !applied.every(isFileEdit)) return;
+    updated = applyEdits(known, applied);
+  } else {
+    return;
+  }
+
+  if (updated === undefined) {
+    context.files.delete(path);
+  } else {
+    context.files.set(path, updated);
+  }
+}
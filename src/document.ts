@@ -0,0 +1,278 @@
+/**
+ * Intermediate document model produced by the formatters and consumed by renderers.
+ *
+ * Documents describe *what* to show (headers, key/value rows, code, tool calls)
+ * without any output-specific markup, so they can be filtered, post-processed or
+ * rendered into custom views.
+ */
+
+import { emojiIcons, type IconName, type IconSet } from './themes';
+
+/**
+ * Semantic color roles for inline text and headers
+ */
+export type Tone =
+  | 'assistant'
+  | 'user'
+  | 'result'
+  | 'system'
+  | 'unknown'
+  | 'success'
+  | 'error'
+  | 'warning'
+  | 'info'
+  | 'accent'
+  | 'highlight'
+  | 'cost'
+  | 'code'
+  | 'muted'
+  | 'keyword'
+  | 'string'
+  | 'number'
+  | 'comment';
+
+/**
+ * A run of styled inline text
+ */
+export interface Span {
+  text: string;
+  tone?: Tone;
+  bold?: boolean;
+  italic?: boolean;
+  /**
+   * Link target; terminals that support it show the text as a hyperlink
+   */
+  href?: string;
+}
+
+/**
+ * A named icon, resolved to text by the active theme
+ */
+export interface Icon {
+  icon: IconName;
+  tone?: Tone;
+}
+
+export type Inline = string | Span | Icon;
+
+/**
+ * Inline content: a single string or span, or a sequence of them
+ */
+export type RichText = Inline | Inline[];
+
+/**
+ * A line (or several) of inline content
+ */
+export interface TextBlock {
+  type: 'text';
+  content: RichText;
+  /**
+   * Indentation in columns for line-based renderers
+   */
+  indent?: number;
+  /**
+   * Whether line-based renderers wrap long lines to the output width, e.g. for prose
+   */
+  wrap?: boolean;
+}
+
+/**
+ * A key/value row such as `Duration: 1.00s`
+ */
+export interface FieldBlock {
+  type: 'field';
+  label: string;
+  value: RichText;
+  indent?: number;
+}
+
+/**
+ * A group of blocks with an optional title, visually separated from what precedes it
+ */
+export interface SectionBlock {
+  type: 'section';
+  title?: RichText;
+  children: Block[];
+  /**
+   * Indentation of the children relative to the title
+   */
+  indent?: number;
+}
+
+/**
+ * Preformatted text such as JSON payloads or command output
+ */
+export interface CodeBlock {
+  type: 'code';
+  code: string;
+  language?: string;
+  tone?: Tone;
+  indent?: number;
+}
+
+export interface ListItem {
+  marker?: Inline;
+  content: RichText;
+}
+
+/**
+ * A bulleted or numbered list; items may carry their own marker (e.g. a status icon)
+ */
+export interface ListBlock {
+  type: 'list';
+  items: ListItem[];
+  /**
+   * Number the items instead of using bullets
+   */
+  ordered?: boolean;
+  /**
+   * Number of the first item of a numbered list (default: 1)
+   */
+  start?: number;
+  /**
+   * Whether line-based renderers wrap long items to the output width
+   */
+  wrap?: boolean;
+  /**
+   * Line shown above the items, e.g. `5 files`; HTML and Markdown show the items
+   * collapsed below it
+   */
+  summary?: RichText;
+  indent?: number;
+}
+
+export type ColumnAlignment = 'left' | 'center' | 'right';
+
+/**
+ * A table with a header row, e.g. from a Markdown table
+ */
+export interface TableBlock {
+  type: 'table';
+  header: RichText[];
+  rows: RichText[][];
+  /**
+   * Alignment per column (default: left)
+   */
+  align?: Array<ColumnAlignment | undefined>;
+  indent?: number;
+}
+
+/**
+ * A tool invocation from an assistant message
+ */
+export interface ToolCallBlock {
+  type: 'tool_call';
+  id: string;
+  name: string;
+  /**
+   * Display name, e.g. the server and tool of MCP tools; defaults to the name
+   */
+  title?: RichText;
+  input: Record<string, unknown>;
+  children: Block[];
+}
+
+/**
+ * The result of a tool invocation from a user message
+ */
+export interface ToolResultBlock {
+  type: 'tool_result';
+  toolUseId: string;
+  isError: boolean;
+  /**
+   * Status line shown after the success/error icon
+   */
+  title: RichText;
+  /**
+   * Name and input of the originating call, when known from earlier messages
+   */
+  toolName?: string;
+  input?: Record<string, unknown>;
+  children: Block[];
+}
+
+/**
+ * A horizontal rule, e.g. a thematic break in Markdown; drawn with the theme's border
+ */
+export interface RuleBlock {
+  type: 'rule';
+  indent?: number;
+}
+
+export type Block =
+  | TextBlock
+  | FieldBlock
+  | SectionBlock
+  | CodeBlock
+  | ListBlock
+  | TableBlock
+  | RuleBlock
+  | ToolCallBlock
+  | ToolResultBlock;
+
+/**
+ * Message header, e.g. `◆ ASSISTANT`; the icon comes from the theme
+ */
+export interface DocumentHeader {
+  title: string;
+  tone: Tone;
+  /**
+   * Secondary information shown after the title, e.g. a model name
+   */
+  detail?: string;
+}
+
+/**
+ * Structured representation of a single SDK message
+ */
+export interface Document {
+  /**
+   * Type of the message the document was built from
+   */
+  type: string;
+
+  /**
+   * Header shown above the content; documents without a header (stream events) are never boxed
+   */
+  header?: DocumentHeader;
+
+  blocks: Block[];
+
+  /**
+   * Id of the subagent tool call the message belongs to, from its parent_tool_use_id
+   */
+  parentToolUseId?: string;
+
+  /**
+   * Subagent nesting level; renderers show documents with a depth above 0 nested
+   */
+  depth?: number;
+}
+
+/**
+ * Normalizes rich text into a list of inlines
+ */
+export function toInlines(content: RichText): Inline[] {
+  return Array.isArray(content) ? content : [content];
+}
+
+/**
+ * Normalizes rich text into a list of spans, resolving icons with the given icon set
+ */
+export function toSpans(content: RichText, icons: IconSet = emojiIcons): Span[] {
+  return toInlines(content).map((inline) => {
+    // Missing values from loosely typed messages, e.g. an init without a version, show as text
+    if (typeof inline !== 'object' || inline === null) return { text: String(inline) };
+    if ('icon' in inline) return { text: icons[inline.icon], tone: inline.tone };
+    return inline;
+  });
+}
+
+/**
+ * Returns the unstyled text of rich text content
+ */
+export function plainText(content: RichText, icons: IconSet = emojiIcons): string {
+  return toSpans(content, icons)
+    .map((span) => span.text)
+    .join('');
+}
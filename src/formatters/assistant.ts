@@ -1,46 +1,174 @@
 import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
-import pc from 'picocolors';
-import type { BetaMessageWithThinking, BetaTextBlock, BetaToolUseBlock } from '../types';
-import { formatToolParamValue } from '../utils';
+import { createFormatContext, type FormatContext } from '../context';
+import type { Block, Document, Span, ToolCallBlock } from '../document';
+import type { ThinkingDisplay } from '../options';
+import { formatToolResultTitle, getToolRenderer, relativePath } from '../tools';
+import { parseMcpToolName, toolDisplayName } from '../tools/mcp';
+import { resolveTruncation } from '../truncation';
+import type {
+  BetaMessageWithThinking,
+  BetaServerToolUseBlock,
+  BetaTextBlock,
+  BetaThinkingBlock,
+  BetaToolUseBlock,
+  BetaWebSearchToolResultBlock,
+} from '../types';
+import { formatToolParamValue, truncateToWidth } from '../utils';
+import { formatText } from './markdown';
+
+/**
+ * Formats tool input with the tool's renderer, falling back to listing the parameters
+ */
+export function formatToolInput(
+  name: string,
+  input: Record<string, unknown>,
+  context: FormatContext
+): Block[] {
+  const rendered = getToolRenderer(name)?.renderInput?.(input, context);
+  if (rendered) {
+    return rendered;
+  }
+
+  const children: Block[] = [];
+
+  // Format input parameters in a compact, readable way
+  if (input && typeof input === 'object') {
+    const truncation = resolveTruncation(context.options.truncation);
+    for (const [key, value] of Object.entries(input)) {
+      children.push({
+        type: 'field',
+        label: key,
+        value: formatToolParamValue(
+          // Path parameters such as `file_path` are shown like the paths of known tools
+          typeof value === 'string' && /(?:^|_)path$/.test(key)
+            ? relativePath(value, context.cwd, context.options.paths)
+            : value,
+          truncation
+        ),
+        indent: 2,
+      });
+    }
+  }
+
+  return children;
+}
+
+/**
+ * Formats a tool_use content block
+ */
+export function formatToolUse(
+  block: BetaToolUseBlock | BetaServerToolUseBlock,
+  context: FormatContext
+): ToolCallBlock {
+  // Loosely typed messages may leave out the input
+  const input = block.input ?? {};
+  const toolCall: ToolCallBlock = {
+    type: 'tool_call',
+    id: block.id,
+    name: block.name,
+    input,
+    children: formatToolInput(block.name, input, context),
+  };
+  if (parseMcpToolName(block.name)) {
+    toolCall.title = toolDisplayName(block.name, context.mcpServers);
+  }
+  return toolCall;
+}
+
+/**
+ * Formats thinking text according to the display policy; redacted thinking has no text
+ */
+export function formatThinking(thinking: string | undefined, display: ThinkingDisplay): Block[] {
+  if (display === 'hide') {
+    return [];
+  }
+
+  const title: Span = { text: '[Thinking]', tone: 'muted', italic: true };
+  if (thinking === undefined) {
+    return [{ type: 'text', content: { ...title, text: '[Redacted thinking]' } }];
+  }
+
+  if (display === 'collapse') {
+    const lines = thinking.trim().split('\n');
+    const preview = truncateToWidth(lines[0], 60);
+    const more = lines.length > 1 ? ` (${lines.length} lines)` : '';
+    return [{ type: 'text', content: [title, { text: ` ${preview}${more}`, tone: 'muted' }] }];
+  }
+
+  return [
+    {
+      type: 'section',
+      title,
+      children: [{ type: 'text', content: { text: thinking, tone: 'muted' } }],
+    },
+  ];
+}
 
 export function formatAssistantMessage(
-  message: Extract<SDKMessage, { type: 'assistant' }>
-): string {
-  const lines: string[] = [];
+  message: Extract<SDKMessage, { type: 'assistant' }>,
+  context: FormatContext = createFormatContext()
+): Document {
+  const blocks: Block[] = [];
   const msg = message.message as BetaMessageWithThinking;
 
+  const display = context.options.thinking ?? 'expand';
+  // Server tools (e.g. web search) are answered within the same message
+  const serverCalls = new Map<string, BetaServerToolUseBlock>();
+
   // Parse content blocks
   for (const block of msg.content) {
     if (block.type === 'text') {
       const textBlock = block as BetaTextBlock;
-      lines.push(textBlock.text);
+      blocks.push(...formatText(textBlock.text, context));
     } else if (block.type === 'tool_use') {
-      const toolUseBlock = block as BetaToolUseBlock;
-      lines.push(`\n${pc.cyan('→')} ${pc.bold(toolUseBlock.name)}`);
-
-      // Format input parameters in a compact, readable way
-      if (toolUseBlock.input && typeof toolUseBlock.input === 'object') {
-        const entries = Object.entries(toolUseBlock.input);
-        if (entries.length > 0) {
-          for (const [key, value] of entries) {
-            const formattedValue = formatToolParamValue(value);
-            lines.push(`  ${pc.dim(key)}: ${formattedValue}`);
-          }
-        }
-      }
+      blocks.push(formatToolUse(block as BetaToolUseBlock, context));
+    } else if (block.type === 'server_tool_use') {
+      const serverToolUse = block as BetaServerToolUseBlock;
+      serverCalls.set(serverToolUse.id, serverToolUse);
+      blocks.push(formatToolUse(serverToolUse, context));
+    } else if (block.type === 'web_search_tool_result') {
+      const result = block as BetaWebSearchToolResultBlock;
+      const call = serverCalls.get(result.tool_use_id);
+      const isError = !Array.isArray(result.content);
+      blocks.push({
+        type: 'tool_result',
+        toolUseId: result.tool_use_id,
+        isError,
+        title: call
+          ? formatToolResultTitle(call, '', isError, context.cwd, context.options.paths)
+          : { text: `Tool result: ${result.tool_use_id}`, tone: 'muted' },
+        toolName: call?.name,
+        input: call?.input,
+        children:
+          getToolRenderer('web_search')?.renderResult?.(
+            { text: '', isError, toolUseId: result.tool_use_id, value: result.content },
+            call?.input ?? {},
+            context
+          ) ?? [],
+      });
+    } else if (block.type === 'thinking') {
+      blocks.push(...formatThinking((block as BetaThinkingBlock).thinking, display));
+    } else if (block.type === 'redacted_thinking') {
+      blocks.push(...formatThinking(undefined, display));
     }
   }
 
-  // Add thinking content if present
+  // Add non-standard thinking content if present
   if (msg.thinking && Array.isArray(msg.thinking)) {
     const thinking = msg.thinking
       .filter((t) => t.type === 'text')
       .map((t) => t.text)
       .join('\n');
     if (thinking) {
-      lines.push(`\n${pc.dim(pc.italic('[Thinking]'))}\n${pc.dim(thinking)}`);
+      blocks.push(...formatThinking(thinking, display));
     }
   }
 
-  return lines.join('\n');
+  // Only call out the model when it differs from the one the session started with
+  const detail =
+    context.model && typeof msg.model === 'string' && msg.model !== context.model
+      ? msg.model
+      : undefined;
+
+  return { type: 'assistant', header: { title: 'ASSISTANT', tone: 'assistant', detail }, blocks };
 }
@@ -0,0 +1,128 @@
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { FormatContext } from '../context';
+import { type Block, type Document, type Inline, plainText, toInlines } from '../document';
+import { describeToolTarget, toolDisplayName } from '../tools';
+import { truncateToWidth } from '../utils';
+
+/**
+ * Width of the text preview on a compact line
+ */
+const PREVIEW_WIDTH = 60;
+
+/**
+ * Collects the text of the blocks and their sections, skipping fields and tool calls and
+ * results, and the section titles unless asked for
+ */
+function collectText(blocks: Block[], titles = false, out: string[] = []): string[] {
+  for (const block of blocks) {
+    if (block.type === 'text') {
+      out.push(plainText(block.content));
+    } else if (block.type === 'section') {
+      if (titles && block.title) out.push(plainText(block.title));
+      collectText(block.children, titles, out);
+    } else if (block.type === 'list') {
+      out.push(...block.items.map((item) => plainText(item.content)));
+    } else if (block.type === 'table') {
+      out.push(
+        ...[block.header, ...block.rows].map((row) => row.map((cell) => plainText(cell)).join(' '))
+      );
+    }
+  }
+  return out;
+}
+
+/**
+ * Returns the first field of the blocks, e.g. `Model: claude-sonnet-4-5`
+ */
+function firstField(blocks: Block[]): string | undefined {
+  for (const block of blocks) {
+    if (block.type === 'field') return `${block.label}: ${plainText(block.value)}`;
+    if (block.type === 'section') {
+      const field = firstField(block.children);
+      if (field) return field;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Token counts of the message, e.g. `1,234 in · 56 out`
+ */
+function tokenCounts(message: SDKMessage): string | undefined {
+  const usage =
+    message.type === 'assistant'
+      ? message.message.usage
+      : message.type === 'result'
+        ? message.usage
+        : undefined;
+  if (!usage) return undefined;
+  // Loosely typed messages may leave out either count
+  const input = (usage.input_tokens ?? 0).toLocaleString();
+  const output = (usage.output_tokens ?? 0).toLocaleString();
+  return `${input} in · ${output} out`;
+}
+
+/**
+ * Collapses a message document into a single line: the role, a short preview of the text,
+ * the tool calls with their key argument and the token counts. Tool results become status
+ * glyphs indented below the line of the originating call.
+ */
+export function compactDocument(
+  document: Document,
+  message: SDKMessage,
+  context: FormatContext
+): Document {
+  const { header, ...rest } = document;
+  if (!header || document.blocks.length === 0) {
+    // Stream events are covered by the complete message that follows them
+    return { ...rest, blocks: [] };
+  }
+
+  const line: Inline[] = [];
+  const add = (...inlines: Inline[]) => {
+    if (line.length > 0) line.push('  ');
+    line.push(...inlines);
+  };
+
+  const results = document.blocks.filter((block) => block.type === 'tool_result');
+  const onlyResults = results.length > 0 && results.length === document.blocks.length;
+  if (!onlyResults) {
+    const { title, tone } = header;
+    add({ icon: 'message', tone }, ' ', { text: title, tone, bold: true });
+
+    // Messages of only headings still get a preview
+    const text =
+      collectText(document.blocks).join(' ') ||
+      collectText(document.blocks, true).join(' ') ||
+      firstField(document.blocks);
+    const preview = text?.replace(/\s+/g, ' ').trim();
+    if (preview) add(truncateToWidth(preview, PREVIEW_WIDTH));
+  }
+
+  for (const block of document.blocks) {
+    if (block.type === 'tool_call') {
+      const target = describeToolTarget(block.input, context.cwd, context.options.paths);
+      add(
+        { icon: 'tool', tone: 'accent' },
+        ' ',
+        ...toolDisplayName(block.name, context.mcpServers),
+        ...(target ? [` ${target}`] : [])
+      );
+    } else if (block.type === 'tool_result') {
+      add(
+        block.isError ? { icon: 'error', tone: 'error' } : { icon: 'success', tone: 'success' },
+        ' ',
+        ...toInlines(block.title)
+      );
+    }
+  }
+
+  const tokens = tokenCounts(message);
+  if (tokens) add({ text: tokens, tone: 'muted' });
+
+  const indent = 2 * (document.depth ?? 0) + (onlyResults ? 2 : 0);
+  return {
+    ...rest,
+    blocks: [{ type: 'text', content: line, ...(indent > 0 && { indent }) }],
+  };
+}
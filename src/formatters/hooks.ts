@@ -1,288 +1,424 @@
-import pc from 'picocolors';
+import { createFormatContext, type FormatContext } from '../context';
+import type { Block, Inline, RichText, Tone } from '../document';
+import { getToolRenderer, relativePath, toolDisplayName, toolResultText } from '../tools';
+import {
+  charLimit,
+  foldLines,
+  moreMarker,
+  resolveTruncation,
+  type Truncation,
+} from '../truncation';
+import { sliceToWidth, stringWidth } from '../utils';
+
+/**
+ * Creates the titled section every hook event is rendered as
+ */
+function hookSection(
+  icon: Inline,
+  title: string,
+  detail: RichText | undefined,
+  children: Block[]
+): Block {
+  const heading: Inline[] = [icon, ' ', { text: title, bold: true }];
+  if (detail !== undefined) {
+    heading.push(' ', ...(Array.isArray(detail) ? detail : [detail]));
+  }
+  return { type: 'section', title: heading, children };
+}
+
+/**
+ * Creates an indented detail row below a hook title
+ */
+function detailField(label: string, value: RichText): Block {
+  return { type: 'field', label, value, indent: 3 };
+}
+
+/**
+ * Creates a detail row for a path in the configured style, e.g. the transcript relative
+ * to the hook's working directory
+ */
+function pathField(label: string, path: string, context: FormatContext, cwd?: string): Block {
+  return detailField(label, relativePath(path, cwd, context.options.paths));
+}
+
+/**
+ * Creates a labeled block of multi-line text below a hook title.
+ * Payloads (tool input/output) are shown as code, everything else as prose.
+ * With truncation, long lines are marked as truncated and long text is folded.
+ */
+function textSection(
+  label: string,
+  text: string,
+  options: { code?: boolean; language?: string; tone?: Tone; truncation?: Truncation } = {}
+): Block {
+  const { code = false, language, tone, truncation } = options;
+  const block = (lines: string[]): Block => {
+    const shown = lines.join('\n');
+    return code
+      ? { type: 'code', code: shown, language, tone, indent: 2 }
+      : { type: 'text', content: tone ? { text: shown, tone } : shown, indent: 2 };
+  };
+
+  if (!truncation) {
+    return { type: 'section', title: { text: label, tone: 'muted' }, children: [block([text])] };
+  }
+
+  const lines = truncateLines(text, charLimit(truncation, code ? 'payload' : 'prompt'));
+  const { head, hidden, tail } = foldLines(lines, truncation);
+  const children = [block(head)];
+  if (hidden > 0) {
+    children.push({
+      type: 'text',
+      content: moreMarker(hidden),
+      indent: 2,
+    });
+  }
+  if (tail.length > 0) {
+    children.push(block(tail));
+  }
+  return { type: 'section', title: { text: label, tone: 'muted' }, children };
+}
+
+/**
+ * Cuts each line of the text at the character limit, marking the cut
+ */
+function truncateLines(text: string, maxChars: number): string[] {
+  return text
+    .split('\n')
+    .map((line) =>
+      stringWidth(line) > maxChars ? `${sliceToWidth(line, maxChars)}... (truncated)` : line
+    );
+}
 
 /**
  * Formats PreToolUse hook callback messages
  */
-function formatPreToolUseHook(message: any): string {
-  const lines: string[] = [];
-  lines.push(`\n${pc.blue('🔧')} ${pc.bold('Pre-Tool Use:')} ${pc.cyan(message.tool_name)}`);
+function formatPreToolUseHook(message: any, context: FormatContext): Block[] {
+  const blocks: Block[] = [];
+  const details: Block[] = [];
 
   if (message.cwd) {
-    lines.push(`   ${pc.dim('Working directory:')} ${message.cwd}`);
+    details.push(pathField('Working directory', message.cwd, context));
   }
-
-  if (message.tool_input) {
-    lines.push(`\n${pc.dim('Tool input:')}`);
-    const inputStr =
-      typeof message.tool_input === 'string'
-        ? message.tool_input
-        : JSON.stringify(message.tool_input, null, 2);
-    lines.push(
-      inputStr
-        .split('\n')
-        .map((l: string) => `  ${pc.gray(l)}`)
-        .join('\n')
+  blocks.push(
+    hookSection(
+      { icon: 'preToolUse', tone: 'info' },
+      'Pre-Tool Use:',
+      toolDisplayName(message.tool_name, context.mcpServers, { tone: 'accent' }),
+      details
+    )
+  );
+
+  // Tools with their own renderer (e.g. Edit diffs) are shown like in assistant messages
+  const rendered =
+    message.tool_input && typeof message.tool_input === 'object'
+      ? getToolRenderer(message.tool_name)?.renderInput?.(message.tool_input, {
+          ...context,
+          cwd: message.cwd || context.cwd,
+        })
+      : undefined;
+
+  if (rendered) {
+    blocks.push({
+      type: 'section',
+      title: { text: 'Tool input:', tone: 'muted' },
+      children: rendered,
+    });
+  } else if (message.tool_input) {
+    const isString = typeof message.tool_input === 'string';
+    const inputStr = isString ? message.tool_input : JSON.stringify(message.tool_input, null, 2);
+    blocks.push(
+      textSection('Tool input:', inputStr, {
+        code: true,
+        language: isString ? undefined : 'json',
+        tone: 'code',
+        truncation: resolveTruncation(context.options.truncation),
+      })
     );
   }
 
-  return lines.join('\n');
+  return blocks;
 }
 
 /**
  * Formats PostToolUse hook callback messages
  */
-function formatPostToolUseHook(message: any): string {
-  const lines: string[] = [];
-  lines.push(`\n${pc.green('✅')} ${pc.bold('Post-Tool Use:')} ${pc.cyan(message.tool_name)}`);
+function formatPostToolUseHook(message: any, context: FormatContext): Block[] {
+  const blocks: Block[] = [];
+  const details: Block[] = [];
 
   if (message.cwd) {
-    lines.push(`   ${pc.dim('Working directory:')} ${message.cwd}`);
+    details.push(pathField('Working directory', message.cwd, context));
   }
-
-  if (message.tool_response !== undefined) {
-    lines.push(`\n${pc.dim('Tool response:')}`);
-    const responseStr =
-      typeof message.tool_response === 'string'
-        ? message.tool_response
-        : JSON.stringify(message.tool_response, null, 2);
-
-    // Limit response length for readability
-    const maxLength = 500;
-    const truncatedResponse =
-      responseStr.length > maxLength
-        ? responseStr.substring(0, maxLength) + pc.dim('... (truncated)')
-        : responseStr;
-
-    lines.push(
-      truncatedResponse
-        .split('\n')
-        .map((l: string) => `  ${pc.gray(l)}`)
-        .join('\n')
+  blocks.push(
+    hookSection(
+      { icon: 'postToolUse', tone: 'success' },
+      'Post-Tool Use:',
+      toolDisplayName(message.tool_name, context.mcpServers, { tone: 'accent' }),
+      details
+    )
+  );
+
+  // Limit string responses for readability, as for the raw response below; renderers
+  // fold long output themselves
+  const truncation = resolveTruncation(context.options.truncation);
+  const response = message.tool_response;
+  const shown =
+    typeof response === 'string'
+      ? truncateLines(response, charLimit(truncation, 'payload')).join('\n')
+      : response;
+  const rendered =
+    shown !== undefined
+      ? getToolRenderer(message.tool_name)?.renderResult?.(
+          {
+            text: typeof shown === 'string' ? shown : toolResultText(shown?.content),
+            isError: false,
+            value: shown,
+          },
+          message.tool_input && typeof message.tool_input === 'object' ? message.tool_input : {},
+          { ...context, cwd: message.cwd || context.cwd }
+        )
+      : undefined;
+
+  if (rendered) {
+    blocks.push({
+      type: 'section',
+      title: { text: 'Tool response:', tone: 'muted' },
+      children: rendered,
+    });
+  } else if (message.tool_response !== undefined) {
+    const isString = typeof message.tool_response === 'string';
+    const responseStr = isString
+      ? message.tool_response
+      : JSON.stringify(message.tool_response, null, 2);
+
+    blocks.push(
+      textSection('Tool response:', responseStr, {
+        code: true,
+        language: isString ? undefined : 'json',
+        tone: 'code',
+        truncation,
+      })
     );
   }
 
-  return lines.join('\n');
+  return blocks;
 }
 
 /**
  * Formats Notification hook callback messages
  */
-function formatNotificationHook(message: any): string {
-  const lines: string[] = [];
-  lines.push(`\n${pc.yellow('🔔')} ${pc.bold('Notification')}`);
+function formatNotificationHook(message: any, context: FormatContext): Block[] {
+  const blocks: Block[] = [];
+  const details: Block[] = [];
 
   if (message.title) {
-    lines.push(`   ${pc.cyan(message.title)}`);
+    details.push({ type: 'text', content: { text: message.title, tone: 'accent' }, indent: 3 });
   }
+  blocks.push(
+    hookSection({ icon: 'notification', tone: 'warning' }, 'Notification', undefined, details)
+  );
 
   if (message.message) {
-    lines.push(`\n${pc.dim('Message:')}`);
-    lines.push(
-      message.message
-        .split('\n')
-        .map((l: string) => `  ${l}`)
-        .join('\n')
-    );
+    blocks.push(textSection('Message:', message.message));
   }
 
   if (message.cwd) {
-    lines.push(`\n   ${pc.dim('Location:')} ${message.cwd}`);
+    blocks.push({ type: 'section', children: [pathField('Location', message.cwd, context)] });
   }
 
-  return lines.join('\n');
+  return blocks;
 }
 
 /**
  * Formats UserPromptSubmit hook callback messages
  */
-function formatUserPromptSubmitHook(message: any): string {
-  const lines: string[] = [];
-  lines.push(`\n${pc.magenta('📝')} ${pc.bold('User Prompt Submitted')}`);
+function formatUserPromptSubmitHook(message: any, context: FormatContext): Block[] {
+  const blocks: Block[] = [];
+  const details: Block[] = [];
 
   if (message.cwd) {
-    lines.push(`   ${pc.dim('Working directory:')} ${message.cwd}`);
+    details.push(pathField('Working directory', message.cwd, context));
   }
+  blocks.push(
+    hookSection(
+      { icon: 'userPrompt', tone: 'highlight' },
+      'User Prompt Submitted',
+      undefined,
+      details
+    )
+  );
 
   if (message.prompt) {
-    lines.push(`\n${pc.dim('Prompt:')}`);
-    // Show first 200 characters of prompt to avoid overwhelming output
-    const preview =
-      message.prompt.length > 200
-        ? message.prompt.substring(0, 200) + pc.dim('... (truncated)')
-        : message.prompt;
-
-    lines.push(
-      preview
-        .split('\n')
-        .map((l: string) => `  ${l}`)
-        .join('\n')
+    blocks.push(
+      textSection('Prompt:', message.prompt, {
+        truncation: resolveTruncation(context.options.truncation),
+      })
     );
   }
 
-  return lines.join('\n');
+  return blocks;
 }
 
 /**
  * Formats SessionStart hook callback messages
  */
-function formatSessionStartHook(message: any): string {
-  const lines: string[] = [];
-  const sourceIcons = {
-    startup: pc.green('🚀'),
-    resume: pc.blue('▶️'),
-    clear: pc.yellow('🔄'),
-    compact: pc.cyan('📦'),
+function formatSessionStartHook(message: any, context: FormatContext): Block[] {
+  const details: Block[] = [];
+  const sourceIcons: Record<string, Inline> = {
+    startup: { icon: 'sessionStartup', tone: 'success' },
+    resume: { icon: 'sessionResume', tone: 'info' },
+    clear: { icon: 'sessionClear', tone: 'warning' },
+    compact: { icon: 'sessionCompact', tone: 'accent' },
   };
 
-  const icon = sourceIcons[message.source as keyof typeof sourceIcons] || pc.gray('📍');
-  lines.push(`\n${icon} ${pc.bold('Session Started')} ${pc.dim(`(${message.source})`)}`);
+  const icon = sourceIcons[message.source] || { icon: 'sessionOther', tone: 'muted' };
 
   if (message.transcript_path) {
-    lines.push(`   ${pc.dim('Transcript:')} ${message.transcript_path}`);
+    details.push(pathField('Transcript', message.transcript_path, context, message.cwd));
   }
 
   if (message.cwd) {
-    lines.push(`   ${pc.dim('Working directory:')} ${message.cwd}`);
+    details.push(pathField('Working directory', message.cwd, context));
   }
 
   if (message.permission_mode) {
-    lines.push(`   ${pc.dim('Permission mode:')} ${message.permission_mode}`);
+    details.push(detailField('Permission mode', message.permission_mode));
   }
 
-  return lines.join('\n');
+  return [
+    hookSection(icon, 'Session Started', { text: `(${message.source})`, tone: 'muted' }, details),
+  ];
 }
 
 /**
  * Formats SessionEnd hook callback messages
  */
-function formatSessionEndHook(message: any): string {
-  const lines: string[] = [];
-  lines.push(`\n${pc.red('🛑')} ${pc.bold('Session Ended')}`);
+function formatSessionEndHook(message: any, context: FormatContext): Block[] {
+  const details: Block[] = [];
 
   if (message.reason) {
-    lines.push(`   ${pc.dim('Reason:')} ${pc.yellow(message.reason)}`);
+    details.push(detailField('Reason', { text: message.reason, tone: 'warning' }));
   }
 
   if (message.transcript_path) {
-    lines.push(`   ${pc.dim('Transcript:')} ${message.transcript_path}`);
+    details.push(pathField('Transcript', message.transcript_path, context, message.cwd));
   }
 
   if (message.cwd) {
-    lines.push(`   ${pc.dim('Working directory:')} ${message.cwd}`);
+    details.push(pathField('Working directory', message.cwd, context));
   }
 
-  return lines.join('\n');
+  return [hookSection({ icon: 'sessionEnd', tone: 'error' }, 'Session Ended', undefined, details)];
 }
 
 /**
- * Formats Stop hook callback messages
+ * Formats Stop and SubagentStop hook callback messages
  */
-function formatStopHook(message: any): string {
-  const lines: string[] = [];
-  const stopIcon = message.stop_hook_active ? pc.yellow('⏸️') : pc.red('🛑');
-  lines.push(`\n${stopIcon} ${pc.bold('Stop Hook Triggered')}`);
+function formatStopHook(message: any, title: string, context: FormatContext): Block[] {
+  const details: Block[] = [];
+  const stopIcon: Inline = message.stop_hook_active
+    ? { icon: 'stopActive', tone: 'warning' }
+    : { icon: 'stopInactive', tone: 'error' };
 
   if (message.stop_hook_active) {
-    lines.push(`   ${pc.yellow('Stop hook is active')}`);
+    details.push({
+      type: 'text',
+      content: { text: 'Stop hook is active', tone: 'warning' },
+      indent: 3,
+    });
   } else {
-    lines.push(`   ${pc.dim('Stop hook is inactive')}`);
+    details.push({
+      type: 'text',
+      content: { text: 'Stop hook is inactive', tone: 'muted' },
+      indent: 3,
+    });
   }
 
   if (message.cwd) {
-    lines.push(`   ${pc.dim('Working directory:')} ${message.cwd}`);
+    details.push(pathField('Working directory', message.cwd, context));
   }
 
   if (message.transcript_path) {
-    lines.push(`   ${pc.dim('Transcript:')} ${message.transcript_path}`);
+    details.push(pathField('Transcript', message.transcript_path, context, message.cwd));
   }
 
-  return lines.join('\n');
-}
-
-/**
- * Formats SubagentStop hook callback messages
- */
-function formatSubagentStopHook(message: any): string {
-  const lines: string[] = [];
-  const stopIcon = message.stop_hook_active ? pc.yellow('⏸️') : pc.red('🛑');
-  lines.push(`\n${stopIcon} ${pc.bold('Subagent Stop Hook Triggered')}`);
-
-  if (message.stop_hook_active) {
-    lines.push(`   ${pc.yellow('Stop hook is active')}`);
-  } else {
-    lines.push(`   ${pc.dim('Stop hook is inactive')}`);
-  }
-
-  if (message.cwd) {
-    lines.push(`   ${pc.dim('Working directory:')} ${message.cwd}`);
-  }
-
-  if (message.transcript_path) {
-    lines.push(`   ${pc.dim('Transcript:')} ${message.transcript_path}`);
-  }
-
-  return lines.join('\n');
+  return [hookSection(stopIcon, title, undefined, details)];
 }
 
 /**
  * Formats PreCompact hook callback messages
  */
-function formatPreCompactHook(message: any): string {
-  const lines: string[] = [];
-  const triggerIcons = {
-    manual: pc.blue('👆'),
-    auto: pc.cyan('🤖'),
+function formatPreCompactHook(message: any, context: FormatContext): Block[] {
+  const blocks: Block[] = [];
+  const triggerIcons: Record<string, Inline> = {
+    manual: { icon: 'compactManual', tone: 'info' },
+    auto: { icon: 'compactAuto', tone: 'accent' },
   };
 
-  const icon = triggerIcons[message.trigger as keyof typeof triggerIcons] || pc.gray('📦');
-  lines.push(`\n${icon} ${pc.bold('Pre-Compaction')} ${pc.dim(`(${message.trigger})`)}`);
+  const icon = triggerIcons[message.trigger] || { icon: 'compactOther', tone: 'muted' };
+  const details: Block[] = [];
+
+  if (!message.custom_instructions) {
+    details.push({
+      type: 'text',
+      content: { text: 'No custom instructions', tone: 'muted' },
+      indent: 3,
+    });
+  }
+  blocks.push(
+    hookSection(icon, 'Pre-Compaction', { text: `(${message.trigger})`, tone: 'muted' }, details)
+  );
 
   if (message.custom_instructions) {
-    lines.push(`\n${pc.dim('Custom instructions:')}`);
-    lines.push(
-      message.custom_instructions
-        .split('\n')
-        .map((l: string) => `  ${pc.cyan(l)}`)
-        .join('\n')
+    blocks.push(
+      textSection('Custom instructions:', message.custom_instructions, { tone: 'accent' })
     );
-  } else {
-    lines.push(`   ${pc.dim('No custom instructions')}`);
   }
 
+  const location: Block[] = [];
   if (message.transcript_path) {
-    lines.push(`\n   ${pc.dim('Transcript:')} ${message.transcript_path}`);
+    location.push(pathField('Transcript', message.transcript_path, context, message.cwd));
   }
 
   if (message.cwd) {
-    lines.push(`   ${pc.dim('Working directory:')} ${message.cwd}`);
+    location.push(pathField('Working directory', message.cwd, context));
+  }
+
+  if (location.length > 0) {
+    blocks.push({ type: 'section', children: location });
   }
 
-  return lines.join('\n');
+  return blocks;
 }
 
 /**
  * Main hook message formatter that routes to specific formatters
  */
-export function formatHookMessage(hookEventName: string, hookData: any): string {
+export function formatHookMessage(
+  hookEventName: string,
+  hookData: any,
+  context: FormatContext = createFormatContext()
+): Block[] {
   switch (hookEventName) {
     case 'PreToolUse':
-      return formatPreToolUseHook(hookData);
+      return formatPreToolUseHook(hookData, context);
     case 'PostToolUse':
-      return formatPostToolUseHook(hookData);
+      return formatPostToolUseHook(hookData, context);
     case 'Notification':
-      return formatNotificationHook(hookData);
+      return formatNotificationHook(hookData, context);
     case 'UserPromptSubmit':
-      return formatUserPromptSubmitHook(hookData);
+      return formatUserPromptSubmitHook(hookData, context);
     case 'SessionStart':
-      return formatSessionStartHook(hookData);
+      return formatSessionStartHook(hookData, context);
     case 'SessionEnd':
-      return formatSessionEndHook(hookData);
+      return formatSessionEndHook(hookData, context);
     case 'Stop':
-      return formatStopHook(hookData);
+      return formatStopHook(hookData, 'Stop Hook Triggered', context);
     case 'SubagentStop':
-      return formatSubagentStopHook(hookData);
+      return formatStopHook(hookData, 'Subagent Stop Hook Triggered', context);
     case 'PreCompact':
-      return formatPreCompactHook(hookData);
+      return formatPreCompactHook(hookData, context);
     default:
       // Throw an error to trigger fallback to original formatting
       throw new Error(`Unknown hook type: ${hookEventName}`);
@@ -1,6 +1,62 @@
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { createFormatContext, type FormatContext } from '../context';
+import type { Document } from '../document';
+import { formatAssistantMessage } from './assistant';
+import { compactDocument } from './compact';
+import { formatResultMessage } from './result';
+import { formatStreamEvent } from './stream';
+import { formatSystemMessage } from './system';
+import { formatUserMessage } from './user';
+
 export { formatAssistantMessage } from './assistant';
 export { formatHookMessage } from './hooks';
 export { formatResultMessage } from './result';
 export { formatStreamEvent } from './stream';
 export { formatSystemMessage } from './system';
 export { formatUserMessage } from './user';
+
+/**
+ * Dispatches a validated message to the formatter for its type
+ */
+export function formatDocument(
+  message: SDKMessage,
+  context: FormatContext = createFormatContext()
+): Document {
+  // Compact lines preview the text of a message, never its thinking
+  const document = formatMessageDocument(
+    message,
+    context.options.compact
+      ? { ...context, options: { ...context.options, thinking: 'hide' } }
+      : context
+  );
+
+  // Messages of subagents are nested below the tool call that started them
+  const parent = 'parent_tool_use_id' in message ? message.parent_tool_use_id : null;
+  if (parent) {
+    document.parentToolUseId = parent;
+    document.depth = context.subagents.get(parent)?.depth ?? 1;
+  }
+
+  return context.options.compact ? compactDocument(document, message, context) : document;
+}
+
+function formatMessageDocument(message: SDKMessage, context: FormatContext): Document {
+  switch (message.type) {
+    case 'assistant':
+      return formatAssistantMessage(message, context);
+    case 'user':
+      return formatUserMessage(message, context);
+    case 'result':
+      return formatResultMessage(message, context);
+    case 'system':
+      return formatSystemMessage(message, context);
+    case 'stream_event':
+      return formatStreamEvent(message, context);
+    default:
+      return {
+        type: 'unknown',
+        header: { title: 'UNKNOWN', tone: 'unknown' },
+        blocks: [{ type: 'text', content: `[Unknown message type: ${(message as any).type}]` }],
+      };
+  }
+}
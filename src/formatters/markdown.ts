@@ -0,0 +1,290 @@
+import type { FormatContext } from '../context';
+import type {
+  Block,
+  ColumnAlignment,
+  Inline,
+  ListBlock,
+  ListItem,
+  SectionBlock,
+  Span,
+  TableBlock,
+} from '../document';
+
+/**
+ * Bold, italic, code spans and links, in order of precedence
+ */
+const INLINE =
+  /\*\*(.+?)\*\*|__(.+?)__|(?<![\w*])\*(?![\s*])(.+?)\*(?!\*)|(?<!\w)_(?![\s_])(.+?)_(?!\w)|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const CHECKBOX = /^\[([ xX])\]\s+/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Parses inline Markdown into styled spans
+ */
+export function markdownInlines(text: string, style: Omit<Span, 'text'> = {}): Inline[] {
+  const inlines: Inline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    if (match.index > last) {
+      inlines.push({ ...style, text: text.slice(last, match.index) });
+    }
+    const [, strong, strongAlt, em, emAlt, code, label, url] = match;
+    if (strong !== undefined || strongAlt !== undefined) {
+      inlines.push(...markdownInlines(strong ?? strongAlt, { ...style, bold: true }));
+    } else if (em !== undefined || emAlt !== undefined) {
+      inlines.push(...markdownInlines(em ?? emAlt, { ...style, italic: true }));
+    } else if (code !== undefined) {
+      inlines.push({ ...style, text: code, tone: 'code' });
+    } else {
+      // Only web links become hyperlinks; other targets are kept as text
+      const href = /^https?:\/\//i.test(url) ? url : undefined;
+      inlines.push(...markdownInlines(label, href ? { ...style, href } : style));
+    }
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) {
+    inlines.push({ ...style, text: text.slice(last) });
+  }
+  return inlines;
+}
+
+interface ListEntry {
+  level: number;
+  ordered: boolean;
+  number: number;
+  text: string;
+}
+
+/**
+ * Turns list entries into a list per run of items at the same level, indented by level
+ */
+function listBlocks(entries: ListEntry[]): ListBlock[] {
+  const lists: ListBlock[] = [];
+  let current: ListBlock | undefined;
+  let currentLevel = -1;
+
+  for (const entry of entries) {
+    if (!current || entry.level !== currentLevel || entry.ordered !== Boolean(current.ordered)) {
+      current = { type: 'list', items: [], indent: entry.level * 2, wrap: true };
+      if (entry.ordered) {
+        current.ordered = true;
+        if (entry.number !== 1) current.start = entry.number;
+      }
+      currentLevel = entry.level;
+      lists.push(current);
+    }
+
+    const checkbox = entry.ordered ? null : CHECKBOX.exec(entry.text);
+    const item: ListItem = checkbox
+      ? {
+          marker:
+            checkbox[1] === ' '
+              ? { icon: 'pending', tone: 'muted' }
+              : { icon: 'success', tone: 'success' },
+          content: markdownInlines(entry.text.slice(checkbox[0].length)),
+        }
+      : { content: markdownInlines(entry.text) };
+    current.items.push(item);
+  }
+  return lists;
+}
+
+function isBlockStart(line: string): boolean {
+  return [FENCE, HEADING, RULE, LIST_ITEM, QUOTE].some((pattern) => pattern.test(line));
+}
+
+/**
+ * Splits a table row into its cells at pipes that are not escaped
+ */
+function tableCells(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Whether a table starts at the line: a row with pipes followed by a delimiter row with
+ * as many columns, e.g. `| --- | :-: |`
+ */
+function isTableStart(lines: string[], i: number): boolean {
+  if (i + 1 >= lines.length || !lines[i].includes('|')) return false;
+  const delimiter = lines[i + 1];
+  return (
+    TABLE_DELIMITER.test(delimiter) && tableCells(delimiter).length === tableCells(lines[i]).length
+  );
+}
+
+function columnAlignment(delimiter: string): ColumnAlignment | undefined {
+  const left = delimiter.startsWith(':');
+  const right = delimiter.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  return left ? 'left' : undefined;
+}
+
+/**
+ * Converts Markdown into document blocks: headings become titled sections holding the
+ * content up to the next heading of the same or a higher level, and paragraphs, lists,
+ * code and quotes are separated from what precedes them
+ */
+export function markdownBlocks(markdown: string): Block[] {
+  const root: Block[] = [];
+  const headings: Array<{ level: number; section: SectionBlock }> = [];
+  const container = () => headings[headings.length - 1]?.section.children ?? root;
+
+  const add = (...blocks: Block[]) => {
+    const target = container();
+    if (target.length === 0) {
+      target.push(...blocks);
+    } else {
+      target.push({ type: 'section', children: blocks });
+    }
+  };
+
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      add({ type: 'code', code: code.join('\n'), language: fence[2] || undefined });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      const section: SectionBlock = {
+        type: 'section',
+        title: markdownInlines(
+          heading[2],
+          level <= 2 ? { bold: true, tone: 'accent' } : { bold: true }
+        ),
+        children: [],
+      };
+      container().push(section);
+      headings.push({ level, section });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      add({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const entries: ListEntry[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item) {
+          const marker = item[2];
+          entries.push({
+            level: Math.floor(item[1].replace(/\t/g, '  ').length / 2),
+            ordered: /\d/.test(marker),
+            number: Number.parseInt(marker, 10) || 1,
+            text: item[3],
+          });
+        } else if (entries.length > 0 && /^\s/.test(lines[i]) && !isBlockStart(lines[i])) {
+          // Indented continuation of the previous item
+          entries[entries.length - 1].text += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      add(...listBlocks(entries));
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = tableCells(line);
+      const table: TableBlock = {
+        type: 'table',
+        header: header.map((cell) => markdownInlines(cell)),
+        rows: [],
+      };
+      const align = tableCells(lines[i + 1]).map(columnAlignment);
+      if (align.some((alignment) => alignment !== undefined)) table.align = align;
+
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && !isBlockStart(lines[i])) {
+        // Rows are padded or cut to the header's columns
+        const cells = tableCells(lines[i]);
+        table.rows.push(header.map((_, column) => markdownInlines(cells[column] ?? '')));
+        i++;
+      }
+      add(table);
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      let match = QUOTE.exec(lines[i]);
+      while (i < lines.length && match) {
+        quoted.push(match[1]);
+        i++;
+        match = i < lines.length ? QUOTE.exec(lines[i]) : null;
+      }
+      add({
+        type: 'text',
+        content: markdownInlines(quoted.join('\n'), { tone: 'muted', italic: true }),
+        indent: 2,
+        wrap: true,
+      });
+      continue;
+    }
+
+    // A paragraph keeps its line breaks, as terminals show text as written
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      (paragraph.length === 0 || !(isBlockStart(lines[i]) || isTableStart(lines, i)))
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    add({ type: 'text', content: markdownInlines(paragraph.join('\n')), wrap: true });
+  }
+
+  return root;
+}
+
+/**
+ * Formats message text as Markdown, or as written when Markdown rendering is off. Text
+ * missing from loosely typed messages formats as nothing
+ */
+export function formatText(text: string, context: FormatContext): Block[] {
+  if (typeof text !== 'string') return [];
+  if (context.options.markdown === false) {
+    return [{ type: 'text', content: text }];
+  }
+  return markdownBlocks(text);
+}
@@ -1,67 +1,181 @@
 import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
-import pc from 'picocolors';
+import { createFormatContext, type FormatContext } from '../context';
+import { type Block, type Document, type Inline, type Span, toInlines } from '../document';
+import { parseMcpToolName } from '../tools';
+import { formatText } from './markdown';
 
-export function formatResultMessage(message: Extract<SDKMessage, { type: 'result' }>): string {
-  const lines: string[] = [];
+export function formatResultMessage(
+  message: Extract<SDKMessage, { type: 'result' }>,
+  context: FormatContext = createFormatContext()
+): Document {
+  const blocks: Block[] = [];
 
   if (message.subtype === 'success') {
-    lines.push(pc.green('✓ Task completed successfully'));
-    lines.push(`\n${pc.bold('Result:')} ${message.result}`);
+    blocks.push({
+      type: 'text',
+      content: [
+        { icon: 'success', tone: 'success' },
+        { text: ' Task completed successfully', tone: 'success' },
+      ],
+    });
+    // A single paragraph stays on the Result: line
+    const label: Span = { text: 'Result:', bold: true };
+    // Loosely typed results may leave out the text, shown as written like any other value
+    const result = formatText(String(message.result), context);
+    blocks.push(
+      result.length === 1 && result[0].type === 'text'
+        ? {
+            type: 'section',
+            children: [{ ...result[0], content: [label, ' ', ...toInlines(result[0].content)] }],
+          }
+        : { type: 'section', title: label, children: result }
+    );
   } else if (message.subtype === 'error_max_turns') {
-    lines.push(pc.red('✗ Error: Maximum turns reached'));
+    blocks.push({
+      type: 'text',
+      content: [
+        { icon: 'error', tone: 'error' },
+        { text: ' Error: Maximum turns reached', tone: 'error' },
+      ],
+    });
   } else if (message.subtype === 'error_during_execution') {
-    lines.push(pc.red('✗ Error during execution'));
+    blocks.push({
+      type: 'text',
+      content: [
+        { icon: 'error', tone: 'error' },
+        { text: ' Error during execution', tone: 'error' },
+      ],
+    });
   }
 
-  lines.push(`\n${pc.bold('Statistics:')}`);
-  lines.push(`  ${pc.dim('Duration:')} ${(message.duration_ms / 1000).toFixed(2)}s`);
-  lines.push(`  ${pc.dim('API Time:')} ${(message.duration_api_ms / 1000).toFixed(2)}s`);
-  lines.push(`  ${pc.dim('Turns:')} ${message.num_turns}`);
-  lines.push(`  ${pc.dim('Cost:')} ${pc.yellow(`$${message.total_cost_usd.toFixed(4)}`)}`);
+  blocks.push({
+    type: 'section',
+    title: { text: 'Statistics:', bold: true },
+    children: [
+      { type: 'field', label: 'Duration', value: `${(message.duration_ms / 1000).toFixed(2)}s` },
+      {
+        type: 'field',
+        label: 'API Time',
+        value: `${(message.duration_api_ms / 1000).toFixed(2)}s`,
+      },
+      { type: 'field', label: 'Turns', value: String(message.num_turns) },
+      {
+        type: 'field',
+        label: 'Cost',
+        value: { text: `$${message.total_cost_usd.toFixed(4)}`, tone: 'cost' },
+      },
+    ],
+    indent: 2,
+  });
 
   // Token usage
-  lines.push(`\n${pc.bold('Token Usage:')}`);
-  lines.push(`  ${pc.dim('Input:')} ${message.usage.input_tokens.toLocaleString()}`);
-  lines.push(`  ${pc.dim('Output:')} ${message.usage.output_tokens.toLocaleString()}`);
+  const tokenUsage: Block[] = [
+    { type: 'field', label: 'Input', value: message.usage.input_tokens.toLocaleString() },
+    { type: 'field', label: 'Output', value: message.usage.output_tokens.toLocaleString() },
+  ];
   if (message.usage.cache_read_input_tokens) {
-    lines.push(
-      `  ${pc.dim('Cache Read:')} ${pc.cyan(message.usage.cache_read_input_tokens.toLocaleString())}`
-    );
+    tokenUsage.push({
+      type: 'field',
+      label: 'Cache Read',
+      value: { text: message.usage.cache_read_input_tokens.toLocaleString(), tone: 'accent' },
+    });
   }
   if (message.usage.cache_creation_input_tokens) {
-    lines.push(
-      `  ${pc.dim('Cache Creation:')} ${message.usage.cache_creation_input_tokens.toLocaleString()}`
-    );
+    tokenUsage.push({
+      type: 'field',
+      label: 'Cache Creation',
+      value: message.usage.cache_creation_input_tokens.toLocaleString(),
+    });
   }
+  blocks.push({
+    type: 'section',
+    title: { text: 'Token Usage:', bold: true },
+    children: tokenUsage,
+    indent: 2,
+  });
 
   // Model-specific usage
   if (Object.keys(message.modelUsage).length > 0) {
-    lines.push(`\n${pc.bold('Per-Model Usage:')}`);
+    const perModel: Block[] = [];
     for (const [model, usage] of Object.entries(message.modelUsage)) {
-      lines.push(`  ${pc.cyan(model)}:`);
-      lines.push(`    ${pc.dim('Input:')} ${usage.inputTokens.toLocaleString()}`);
-      lines.push(`    ${pc.dim('Output:')} ${usage.outputTokens.toLocaleString()}`);
+      const modelUsage: Block[] = [
+        { type: 'field', label: 'Input', value: usage.inputTokens.toLocaleString() },
+        { type: 'field', label: 'Output', value: usage.outputTokens.toLocaleString() },
+      ];
       if (usage.cacheReadInputTokens) {
-        lines.push(
-          `    ${pc.dim('Cache Read:')} ${pc.cyan(usage.cacheReadInputTokens.toLocaleString())}`
-        );
+        modelUsage.push({
+          type: 'field',
+          label: 'Cache Read',
+          value: { text: usage.cacheReadInputTokens.toLocaleString(), tone: 'accent' },
+        });
       }
       if (usage.cacheCreationInputTokens) {
-        lines.push(
-          `    ${pc.dim('Cache Creation:')} ${usage.cacheCreationInputTokens.toLocaleString()}`
-        );
+        modelUsage.push({
+          type: 'field',
+          label: 'Cache Creation',
+          value: usage.cacheCreationInputTokens.toLocaleString(),
+        });
       }
-      lines.push(`    ${pc.dim('Cost:')} ${pc.yellow(`$${usage.costUSD.toFixed(4)}`)}`);
+      modelUsage.push({
+        type: 'field',
+        label: 'Cost',
+        value: { text: `$${usage.costUSD.toFixed(4)}`, tone: 'cost' },
+      });
+      perModel.push({ type: 'text', content: [{ text: model, tone: 'accent' }, ':'] });
+      perModel.push(...modelUsage.map((field) => ({ ...field, indent: 2 })));
     }
+    blocks.push({
+      type: 'section',
+      title: { text: 'Per-Model Usage:', bold: true },
+      children: perModel,
+      indent: 2,
+    });
+  }
+
+  // MCP tool usage of the session, by server
+  const mcpUsage = new Map<string, Map<string, number>>();
+  for (const call of context.toolCalls.values()) {
+    const mcp = parseMcpToolName(call.name);
+    if (!mcp) continue;
+    const tools = mcpUsage.get(mcp.server) ?? new Map<string, number>();
+    tools.set(mcp.tool, (tools.get(mcp.tool) ?? 0) + 1);
+    mcpUsage.set(mcp.server, tools);
+  }
+  if (mcpUsage.size > 0) {
+    blocks.push({
+      type: 'section',
+      title: { text: 'MCP Tools:', bold: true },
+      children: [...mcpUsage].map(([server, tools]): Block => {
+        const calls = [...tools.values()].reduce((sum, count) => sum + count, 0);
+        const value: Inline[] = [`${calls} ${calls === 1 ? 'call' : 'calls'}`];
+        const names = [...tools].map(([tool, count]) => (count > 1 ? `${tool} ×${count}` : tool));
+        value.push({ text: ` (${names.join(', ')})`, tone: 'muted' });
+        return { type: 'field', label: server, value };
+      }),
+      indent: 2,
+    });
   }
 
   // Permission denials
   if (message.permission_denials.length > 0) {
-    lines.push(`\n${pc.bold(pc.red('Permission Denials:'))} ${message.permission_denials.length}`);
-    for (const denial of message.permission_denials) {
-      lines.push(`  ${pc.red('•')} ${denial.tool_name} ${pc.dim(`(${denial.tool_use_id})`)}`);
-    }
+    blocks.push({
+      type: 'section',
+      title: [
+        { text: 'Permission Denials:', bold: true, tone: 'error' },
+        ` ${message.permission_denials.length}`,
+      ],
+      children: [
+        {
+          type: 'list',
+          items: message.permission_denials.map((denial) => ({
+            marker: { icon: 'bullet', tone: 'error' },
+            content: [denial.tool_name, ' ', { text: `(${denial.tool_use_id})`, tone: 'muted' }],
+          })),
+        },
+      ],
+      indent: 2,
+    });
   }
 
-  return lines.join('\n');
+  return { type: 'result', header: { title: 'RESULT', tone: 'result' }, blocks };
 }
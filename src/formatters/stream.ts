@@ -1,38 +1,128 @@
 import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
-import pc from 'picocolors';
+import { createFormatContext, type FormatContext } from '../context';
+import type { Block, Document } from '../document';
+import type { BetaRawMessageStreamEvent } from '../types';
+import { formatThinking, formatToolUse } from './assistant';
 
-export function formatStreamEvent(message: Extract<SDKMessage, { type: 'stream_event' }>): string {
-  const event = message.event;
+/**
+ * An empty line; around other blocks it puts them on lines of their own within streamed text
+ */
+const emptyLine: Block = { type: 'text', content: '' };
+
+export function formatStreamEvent(
+  message: Extract<SDKMessage, { type: 'stream_event' }>,
+  context: FormatContext = createFormatContext()
+): Document {
+  // Stream events have no header so they are rendered inline, without boxes
+  return {
+    type: 'stream_event',
+    blocks: formatStreamEventBlocks(message.event as BetaRawMessageStreamEvent, context),
+  };
+}
+
+function formatStreamEventBlocks(
+  event: BetaRawMessageStreamEvent,
+  context: FormatContext
+): Block[] {
+  const { stream } = context;
+  const thinking = context.options.thinking ?? 'expand';
+  // Whether the event belongs to a block whose start we have seen
+  const tracked = 'index' in event && stream.get(event.index) !== undefined;
+  const block = stream.push(event);
 
   switch (event.type) {
     case 'message_start':
-      return ''; // Usually handled at the beginning
+      return []; // Usually handled at the beginning
 
     case 'content_block_start':
       if (event.content_block.type === 'tool_use') {
-        return `\n${pc.dim(`[Starting tool: ${event.content_block.name}]`)}`;
+        // Leading newline separates the tool from any streamed text before it
+        return [
+          {
+            type: 'text',
+            content: [
+              '\n',
+              { text: `[Starting tool: ${event.content_block.name}]`, tone: 'muted' },
+            ],
+          },
+        ];
+      }
+      if (event.content_block.type === 'redacted_thinking' && thinking !== 'hide') {
+        return [emptyLine, ...formatThinking(undefined, thinking), emptyLine];
       }
-      return '';
+      // Expanded thinking streams its text; collapsed thinking is shown once complete
+      if (event.content_block.type === 'thinking' && thinking === 'expand') {
+        return [
+          {
+            type: 'text',
+            content: ['\n', { text: '[Thinking]', tone: 'muted', italic: true }, '\n'],
+          },
+        ];
+      }
+      return [];
 
     case 'content_block_delta':
+      // Text of tracked blocks is shown as it becomes ready; deltas of unknown blocks pass through
       if (event.delta.type === 'text_delta') {
-        return event.delta.text;
+        const text = block ? block.ready : event.delta.text;
+        return text ? [{ type: 'text', content: text }] : [];
+      }
+      if (event.delta.type === 'thinking_delta' && thinking === 'expand') {
+        const text = block ? block.ready : event.delta.thinking;
+        return text ? [{ type: 'text', content: { text, tone: 'muted' } }] : [];
+      }
+      // Tool input is buffered until its block stops; fragments of unknown blocks pass through
+      if (event.delta.type === 'input_json_delta' && !tracked) {
+        return [{ type: 'text', content: event.delta.partial_json }];
       }
-      if (event.delta.type === 'input_json_delta') {
-        return event.delta.partial_json;
+      return [];
+
+    case 'content_block_stop': {
+      if (block?.type === 'text' && block.ready) {
+        return [{ type: 'text', content: block.ready }];
+      }
+      if (block?.type === 'thinking') {
+        if (thinking === 'expand') {
+          return [{ type: 'text', content: [{ text: block.ready, tone: 'muted' }, '\n'] }];
+        }
+        if (thinking === 'collapse') {
+          return [emptyLine, ...formatThinking(block.text, thinking), emptyLine];
+        }
+      }
+      if (block?.type !== 'tool_use' || !block.id || !block.name) {
+        return [];
       }
-      return '';
 
-    case 'content_block_stop':
-      return ''; // Usually handled at block completion
+      const toolCall = formatToolUse(
+        { type: 'tool_use', id: block.id, name: block.name, input: block.input ?? {} },
+        context
+      );
+      if (!block.input) {
+        toolCall.children.push({ type: 'code', code: block.partialJson, tone: 'muted', indent: 2 });
+      }
+      return [emptyLine, toolCall, emptyLine];
+    }
 
-    case 'message_delta':
-      return ''; // Usage updates, typically silent
+    case 'message_delta': {
+      const details: string[] = [];
+      if (stream.stopReason) {
+        details.push(`Stopped: ${stream.stopReason}`);
+      }
+      if (stream.usage?.output_tokens !== undefined) {
+        details.push(`${stream.usage.output_tokens.toLocaleString()} output tokens`);
+      }
+      if (details.length === 0) {
+        return [];
+      }
+      return [
+        { type: 'text', content: ['\n', { text: `[${details.join(', ')}]`, tone: 'muted' }] },
+      ];
+    }
 
     case 'message_stop':
-      return ''; // End of message, typically handled elsewhere
+      return []; // End of message, typically handled elsewhere
 
     default:
-      return '';
+      return [];
   }
 }
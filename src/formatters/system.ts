@@ -1,58 +1,113 @@
 import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
-import pc from 'picocolors';
+import { createFormatContext, type FormatContext } from '../context';
+import type { Block, Document, Inline } from '../document';
+import { relativePath } from '../tools';
 import { formatHookMessage } from './hooks';
 
-export function formatSystemMessage(message: Extract<SDKMessage, { type: 'system' }>): string {
+export function formatSystemMessage(
+  message: Extract<SDKMessage, { type: 'system' }>,
+  context: FormatContext = createFormatContext()
+): Document {
+  return {
+    type: 'system',
+    header: { title: 'SYSTEM', tone: 'system' },
+    blocks: formatSystemBlocks(message, context),
+  };
+}
+
+function formatSystemBlocks(
+  message: Extract<SDKMessage, { type: 'system' }>,
+  context: FormatContext
+): Block[] {
   if (message.subtype === 'init') {
-    const lines: string[] = [];
-    lines.push(`\n${pc.bold('Claude Code Session Initialized')}`);
-    lines.push(`\n${pc.dim('Version:')} ${message.claude_code_version}`);
-    lines.push(`${pc.dim('Model:')} ${pc.cyan(message.model)}`);
-    lines.push(`${pc.dim('Working Directory:')} ${message.cwd}`);
-    lines.push(`${pc.dim('Permission Mode:')} ${message.permissionMode}`);
-    lines.push(`${pc.dim('API Key Source:')} ${message.apiKeySource}`);
+    const blocks: Block[] = [];
+    blocks.push({ type: 'text', content: { text: 'Claude Code Session Initialized', bold: true } });
+    blocks.push({
+      type: 'section',
+      children: [
+        { type: 'field', label: 'Version', value: message.claude_code_version },
+        { type: 'field', label: 'Model', value: { text: message.model, tone: 'accent' } },
+        {
+          type: 'field',
+          label: 'Working Directory',
+          value: relativePath(message.cwd, undefined, context.options.paths),
+        },
+        { type: 'field', label: 'Permission Mode', value: message.permissionMode },
+        { type: 'field', label: 'API Key Source', value: message.apiKeySource },
+      ],
+    });
 
     if (message.tools.length > 0) {
-      lines.push(`\n${pc.dim('Available Tools:')} ${message.tools.length}`);
+      blocks.push({
+        type: 'section',
+        children: [
+          { type: 'field', label: 'Available Tools', value: String(message.tools.length) },
+        ],
+      });
     }
 
     if (message.mcp_servers.length > 0) {
-      lines.push(`\n${pc.bold('MCP Servers:')}`);
-      for (const server of message.mcp_servers) {
-        const statusEmoji =
-          server.status === 'connected'
-            ? pc.green('✓')
-            : server.status === 'failed'
-              ? pc.red('✗')
-              : server.status === 'needs-auth'
-                ? pc.yellow('⚠')
-                : pc.dim('○');
-        lines.push(`  ${statusEmoji} ${server.name} ${pc.dim(`(${server.status})`)}`);
-      }
+      blocks.push({
+        type: 'section',
+        title: { text: 'MCP Servers:', bold: true },
+        children: [
+          {
+            type: 'list',
+            items: message.mcp_servers.map((server) => ({
+              marker: mcpStatusIcon(server.status),
+              content: [server.name, ' ', { text: `(${server.status})`, tone: 'muted' }],
+            })),
+          },
+        ],
+        indent: 2,
+      });
     }
 
     if (message.slash_commands.length > 0) {
-      lines.push(`\n${pc.dim('Slash Commands:')} ${message.slash_commands.join(', ')}`);
+      blocks.push({
+        type: 'section',
+        children: [
+          { type: 'field', label: 'Slash Commands', value: message.slash_commands.join(', ') },
+        ],
+      });
     }
 
     if (message.agents && message.agents.length > 0) {
-      lines.push(`\n${pc.dim('Agents:')} ${message.agents.join(', ')}`);
+      blocks.push({
+        type: 'section',
+        children: [{ type: 'field', label: 'Agents', value: message.agents.join(', ') }],
+      });
     }
 
     if (message.skills && message.skills.length > 0) {
-      lines.push(`\n${pc.dim('Skills:')} ${message.skills.join(', ')}`);
+      blocks.push({
+        type: 'section',
+        children: [{ type: 'field', label: 'Skills', value: message.skills.join(', ') }],
+      });
     }
 
-    return lines.join('\n');
+    return blocks;
   } else if (message.subtype === 'compact_boundary') {
-    const lines: string[] = [];
-    lines.push(
-      `\n${pc.yellow('⚡')} ${pc.bold('Conversation Compacted')} ${pc.dim(`(${message.compact_metadata.trigger})`)}`
-    );
-    lines.push(
-      `   ${pc.dim('Previous tokens:')} ${message.compact_metadata.pre_tokens.toLocaleString()}`
-    );
-    return lines.join('\n');
+    return [
+      {
+        type: 'section',
+        title: [
+          { icon: 'compacted', tone: 'warning' },
+          ' ',
+          { text: 'Conversation Compacted', bold: true },
+          ' ',
+          { text: `(${message.compact_metadata.trigger})`, tone: 'muted' },
+        ],
+        children: [
+          {
+            type: 'field',
+            label: 'Previous tokens',
+            value: message.compact_metadata.pre_tokens.toLocaleString(),
+            indent: 3,
+          },
+        ],
+      },
+    ];
   } else if (message.subtype === 'hook_response') {
     // Check if this is one of our known hook types
     if (message.hook_event) {
@@ -61,11 +116,11 @@ export function formatSystemMessage(message: Extract<SDKMessage, { type: 'system
         const hookData: any = {
           ...message, // Include all message properties
           transcript_path: (message as any).transcript_path || '', // Will be populated if available
-          cwd: process.cwd(),
+          cwd: (message as any).cwd || context.cwd || process.cwd(),
           permission_mode: (message as any).permission_mode || undefined,
         };
 
-        return formatHookMessage(message.hook_event, hookData);
+        return formatHookMessage(message.hook_event, hookData, context);
       } catch (_error) {
         // Fallback to original formatting if hook formatting fails
         // Silently ignore error for cleaner output
@@ -73,40 +128,71 @@ export function formatSystemMessage(message: Extract<SDKMessage, { type: 'system
     }
 
     // Fallback to original hook_response formatting
-    const lines: string[] = [];
-    lines.push(
-      `\n${pc.cyan('⚙')} ${pc.bold('Hook:')} ${message.hook_name || 'Unknown'} ${pc.dim(`(${message.hook_event || 'unknown'})`)}`
-    );
+    const blocks: Block[] = [];
+    blocks.push({
+      type: 'section',
+      title: [
+        { icon: 'hook', tone: 'accent' },
+        ' ',
+        { text: 'Hook:', bold: true },
+        ` ${message.hook_name || 'Unknown'} `,
+        { text: `(${message.hook_event || 'unknown'})`, tone: 'muted' },
+      ],
+      children: [],
+    });
 
     if (message.stdout) {
-      lines.push(`\n${pc.dim('stdout:')}`);
-      lines.push(
-        message.stdout
-          .split('\n')
-          .map((l) => `  ${l}`)
-          .join('\n')
-      );
+      blocks.push({
+        type: 'section',
+        title: { text: 'stdout:', tone: 'muted' },
+        children: [{ type: 'code', code: message.stdout, indent: 2 }],
+      });
     }
 
     if (message.stderr) {
-      lines.push(`\n${pc.dim('stderr:')}`);
-      lines.push(
-        pc.red(
-          message.stderr
-            .split('\n')
-            .map((l) => `  ${l}`)
-            .join('\n')
-        )
-      );
+      blocks.push({
+        type: 'section',
+        title: { text: 'stderr:', tone: 'muted' },
+        children: [{ type: 'code', code: message.stderr, tone: 'error', indent: 2 }],
+      });
     }
 
     if (message.exit_code !== undefined) {
-      const exitIcon = message.exit_code === 0 ? pc.green('✓') : pc.red('✗');
-      lines.push(`\n${exitIcon} ${pc.dim('Exit code:')} ${message.exit_code}`);
+      const exitIcon: Inline =
+        message.exit_code === 0
+          ? { icon: 'success', tone: 'success' }
+          : { icon: 'error', tone: 'error' };
+      blocks.push({
+        type: 'section',
+        children: [
+          {
+            type: 'text',
+            content: [
+              exitIcon,
+              ' ',
+              { text: 'Exit code:', tone: 'muted' },
+              ` ${message.exit_code}`,
+            ],
+          },
+        ],
+      });
     }
 
-    return lines.join('\n');
+    return blocks;
   }
 
-  return pc.dim('[Unknown system message subtype]');
+  return [{ type: 'text', content: { text: '[Unknown system message subtype]', tone: 'muted' } }];
+}
+
+function mcpStatusIcon(status: string): Inline {
+  switch (status) {
+    case 'connected':
+      return { icon: 'success', tone: 'success' };
+    case 'failed':
+      return { icon: 'error', tone: 'error' };
+    case 'needs-auth':
+      return { icon: 'warning', tone: 'warning' };
+    default:
+      return { icon: 'pending', tone: 'muted' };
+  }
 }
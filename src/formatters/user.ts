@@ -1,56 +1,108 @@
 import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
-import pc from 'picocolors';
+import { createFormatContext, type FormatContext } from '../context';
+import type { Block, Document } from '../document';
+import { formatToolResultTitle, getToolRenderer, toolResultText } from '../tools';
+import { outputBlocks } from '../tools/output';
+import { resolveTruncation, type Truncation } from '../truncation';
 
-export function formatUserMessage(message: Extract<SDKMessage, { type: 'user' }>): {
-  header: string;
-  content: string;
-} {
+export function formatUserMessage(
+  message: Extract<SDKMessage, { type: 'user' }>,
+  context: FormatContext = createFormatContext()
+): Document {
   if ('isReplay' in message && message.isReplay) {
-    return { header: '', content: '' }; // Skip replay messages to avoid duplication
+    return { type: 'user', blocks: [] }; // Skip replay messages to avoid duplication
   }
 
   const content = message.message.content;
-  const lines: string[] = [];
+  const blocks: Block[] = [];
   let hasToolResults = false;
 
   if (typeof content === 'string') {
-    lines.push(content);
+    if (content) {
+      blocks.push({ type: 'text', content });
+    }
   } else if (Array.isArray(content)) {
     for (const block of content) {
       if (typeof block === 'string') {
-        lines.push(block);
+        blocks.push({ type: 'text', content: block });
       } else if (block.type === 'text') {
-        lines.push(block.text);
+        blocks.push({ type: 'text', content: block.text });
       } else if (block.type === 'image') {
-        lines.push(pc.dim('[Image]'));
+        blocks.push({ type: 'text', content: { text: '[Image]', tone: 'muted' } });
       } else if (block.type === 'tool_result') {
         hasToolResults = true;
-        const resultIcon = block.is_error ? pc.red('✗') : pc.green('✓');
-        lines.push(`\n${resultIcon} ${pc.dim(`Tool result: ${block.tool_use_id}`)}`);
-        if (typeof block.content === 'string') {
-          lines.push(block.content);
-        } else if (Array.isArray(block.content)) {
-          for (const contentBlock of block.content) {
-            if (contentBlock.type === 'text') {
-              lines.push(contentBlock.text);
-            } else if (contentBlock.type === 'image') {
-              lines.push(pc.dim('[Image result]'));
-            }
-          }
-        }
-        if (block.is_error) {
-          lines.push(pc.red('✗ Error in tool execution'));
-        }
+        const isError = Boolean(block.is_error);
+        const call = context.toolCalls.get(block.tool_use_id);
+        const text = toolResultText(block.content);
+        const rendered =
+          call &&
+          getToolRenderer(call.name)?.renderResult?.(
+            { text, isError, toolUseId: block.tool_use_id },
+            call.input,
+            context
+          );
+
+        const children =
+          rendered ??
+          formatToolResultContent(
+            block.content,
+            isError,
+            resolveTruncation(context.options.truncation)
+          );
+        blocks.push({
+          type: 'tool_result',
+          toolUseId: block.tool_use_id,
+          isError,
+          title: call
+            ? formatToolResultTitle(call, text, isError, context.cwd, context.options.paths)
+            : { text: `Tool result: ${block.tool_use_id}`, tone: 'muted' },
+          toolName: call?.name,
+          input: call?.input,
+          children,
+        });
       }
     }
   }
 
-  const contentText = message.isSynthetic
-    ? `${pc.dim('[Synthetic]')} ${lines.join('\n')}`
-    : lines.join('\n');
+  if (blocks.length > 0 && message.isSynthetic) {
+    blocks.unshift({ type: 'text', content: { text: '[Synthetic]', tone: 'muted' } });
+  }
 
   // Choose header based on whether there are tool results
-  const header = hasToolResults ? pc.green('◆ USER (Tool Results)') : pc.green('◆ USER');
+  const title = hasToolResults ? 'USER (Tool Results)' : 'USER';
 
-  return { header, content: contentText };
+  return { type: 'user', header: { title, tone: 'user' }, blocks };
+}
+
+/**
+ * Formats the content of a tool result as output blocks, folding long text to its head
+ * and tail
+ */
+function formatToolResultContent(
+  content: unknown,
+  isError: boolean,
+  truncation: Truncation
+): Block[] {
+  const children: Block[] = [];
+  if (typeof content === 'string') {
+    if (content) children.push(...outputBlocks(content, truncation, { indent: 0 }));
+  } else if (Array.isArray(content)) {
+    for (const contentBlock of content) {
+      if (contentBlock.type === 'text') {
+        children.push(...outputBlocks(contentBlock.text, truncation, { indent: 0 }));
+      } else if (contentBlock.type === 'image') {
+        children.push({ type: 'text', content: { text: '[Image result]', tone: 'muted' } });
+      }
+    }
+  }
+  if (isError) {
+    children.push({
+      type: 'text',
+      content: [
+        { icon: 'error', tone: 'error' },
+        { text: ' Error in tool execution', tone: 'error' },
+      ],
+    });
+  }
+  return children;
 }
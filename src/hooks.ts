@@ -1,5 +1,12 @@
 import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
 import { formatMessage } from './index';
+import { createRedactor, type RedactionOptions } from './redaction';
+import type { ThemeOption } from './themes';
+import type { PathStyle } from './tools';
+import type { TruncationOptions } from './truncation';
+
+export type { ToolNamePattern, ToolOutput, ToolRenderer } from './tools';
+export { registerToolRenderer } from './tools';
 
 /**
  * Hook callback function type
@@ -54,6 +61,29 @@ export interface LoggingHookOptions {
    */
   logger?: (message: string) => void;
 
+  /**
+   * Theme for formatted output (default: 'default')
+   */
+  theme?: ThemeOption;
+
+  /**
+   * Limits for long tool input, output and payloads in formatted output, or 'unlimited'
+   * to show them in full (default: the formatMessage defaults)
+   */
+  truncation?: TruncationOptions | 'unlimited';
+
+  /**
+   * How paths are shown in formatted output: relative to the hook's working directory,
+   * short with ~ for the home directory, or absolute (default: 'absolute')
+   */
+  paths?: PathStyle;
+
+  /**
+   * Whether to hide secrets in formatted and raw JSON output, or the detectors and patterns
+   * to hide them with (default: true)
+   */
+  redact?: boolean | RedactionOptions;
+
   /**
    * Hook types to create loggers for (default: all hooks)
    */
@@ -101,6 +131,10 @@ export function createLoggingHooks(options: LoggingHookOptions = {}): HooksConfi
     matcher = '.*',
     formatted = true,
     logger = console.log,
+    theme,
+    truncation,
+    paths,
+    redact,
     hookTypes = DEFAULT_HOOK_TYPES,
   } = options;
 
@@ -122,11 +156,16 @@ export function createLoggingHooks(options: LoggingHookOptions = {}): HooksConfi
 
             if (formatted) {
               // Use the formatted output
-              const formattedOutput = formatMessage(syntheticMessage);
+              const formattedOutput = formatMessage(syntheticMessage, {
+                theme,
+                truncation,
+                paths,
+                redact,
+              });
               logger(formattedOutput);
             } else {
               // Use raw JSON output
-              logger(JSON.stringify({ hookType, input, toolUseID, options: hookOptions }, null, 2));
+              logger(rawJson({ hookType, input, toolUseID, options: hookOptions }, redact));
             }
 
             return {};
@@ -139,6 +178,14 @@ export function createLoggingHooks(options: LoggingHookOptions = {}): HooksConfi
   return hooks;
 }
 
+/**
+ * Serializes hook data for raw JSON logging, with its secrets redacted
+ */
+function rawJson(data: Record<string, unknown>, redact?: boolean | RedactionOptions): string {
+  const redactor = createRedactor(redact);
+  return JSON.stringify(redactor ? redactor(data) : data, null, 2);
+}
+
 /**
  * Creates a synthetic SDKMessage for a hook callback
  * This allows us to use the formatMessage function with hook data
@@ -252,6 +299,29 @@ export interface WithLoggingOptions {
    * Custom logger function (default: console.log)
    */
   logger?: (message: string) => void;
+
+  /**
+   * Theme for formatted output (default: 'default')
+   */
+  theme?: ThemeOption;
+
+  /**
+   * Limits for long tool input, output and payloads in formatted output, or 'unlimited'
+   * to show them in full (default: the formatMessage defaults)
+   */
+  truncation?: TruncationOptions | 'unlimited';
+
+  /**
+   * How paths are shown in formatted output: relative to the hook's working directory,
+   * short with ~ for the home directory, or absolute (default: 'absolute')
+   */
+  paths?: PathStyle;
+
+  /**
+   * Whether to hide secrets in formatted and raw JSON output, or the detectors and patterns
+   * to hide them with (default: true)
+   */
+  redact?: boolean | RedactionOptions;
 }
 
 /**
@@ -305,7 +375,7 @@ export function withLogging(
   hooksConfig: Partial<HooksConfig>,
   options: WithLoggingOptions = {}
 ): HooksConfig {
-  const { formatted = true, logger = console.log } = options;
+  const { formatted = true, logger = console.log, theme, truncation, paths, redact } = options;
 
   const enhancedConfig: HooksConfig = {};
 
@@ -326,10 +396,15 @@ export function withLogging(
         );
 
         if (formatted) {
-          const formattedOutput = formatMessage(syntheticMessage);
+          const formattedOutput = formatMessage(syntheticMessage, {
+            theme,
+            truncation,
+            paths,
+            redact,
+          });
           logger(formattedOutput);
         } else {
-          logger(JSON.stringify({ hookType, input, toolUseID, options: hookOptions }, null, 2));
+          logger(rawJson({ hookType, input, toolUseID, options: hookOptions }, redact));
         }
 
         return {};
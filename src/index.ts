@@ -1,15 +1,80 @@
 import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
-import pc from 'picocolors';
-import {
-  formatAssistantMessage,
-  formatResultMessage,
-  formatStreamEvent,
-  formatSystemMessage,
-  formatUserMessage,
-} from './formatters';
-import { createBox } from './utils';
+import { createFormatContext } from './context';
+import type { Document } from './document';
+import { formatDocument } from './formatters';
+import { type DocumentOptions, type FormatOptions, resolveFormatOptions } from './options';
+import { createRedactor } from './redaction';
 import { validateMessage } from './validation';
 
+export type { FormatContext, Subagent, ToolCall } from './context';
+export type {
+  Block,
+  CodeBlock,
+  ColumnAlignment,
+  Document,
+  DocumentHeader,
+  FieldBlock,
+  Icon,
+  Inline,
+  ListBlock,
+  ListItem,
+  RichText,
+  RuleBlock,
+  SectionBlock,
+  Span,
+  TableBlock,
+  TextBlock,
+  Tone,
+  ToolCallBlock,
+  ToolResultBlock,
+} from './document';
+export { plainText, toSpans } from './document';
+export type { DocumentOptions, FormatOptions, ThinkingDisplay } from './options';
+export type { RedactionOptions, Redactor } from './redaction';
+export { createRedactor } from './redaction';
+export type {
+  BoxOptions,
+  BoxStyle,
+  Renderer,
+  RendererName,
+  RenderOptions,
+} from './renderers';
+export { ansiRenderer, htmlRenderer, markdownRenderer, plainRenderer } from './renderers';
+export { createSessionRenderer, SessionRenderer } from './session';
+export type { StreamBlock } from './stream';
+export { StreamAccumulator } from './stream';
+export type {
+  BorderChars,
+  ColorName,
+  IconName,
+  IconSet,
+  Theme,
+  ThemeName,
+  ThemeOption,
+  ThemeOverrides,
+} from './themes';
+export {
+  asciiBorder,
+  asciiIcons,
+  doubleBorder,
+  emojiIcons,
+  heavyBorder,
+  resolveTheme,
+  roundedBorder,
+  themes,
+  unicodeBorder,
+} from './themes';
+export type {
+  McpToolName,
+  PathStyle,
+  ToolNamePattern,
+  ToolOutput,
+  ToolRenderer,
+} from './tools';
+export { getToolRenderer, parseMcpToolName, registerToolRenderer } from './tools';
+export type { TruncationOptions } from './truncation';
+export { stringWidth, truncateToWidth, wrapLine } from './utils';
+
 /**
  * Extracts raw text content from any SDK message type
  * @param message The SDK message to extract content from
@@ -74,55 +139,35 @@ export function getRawText(message: SDKMessage): string {
 }
 
 /**
- * Formats an SDKMessage for CLI output with colors and boxes
- * @param message The SDK message to format
- * @param showBox Whether to wrap the message in a box (default: true)
- * @returns Formatted string ready for CLI display
+ * Converts an SDK message into the structured document that renderers consume.
+ * Use this to filter, post-process or build custom views of messages.
+ * @param message The SDK message to convert
+ * @param options Options that affect the content, e.g. how thinking is shown
+ * @returns Document with the message header and content blocks
  */
-export function formatMessage(message: SDKMessage, showBox = true): string {
+export function toDocument(message: SDKMessage, options: DocumentOptions = {}): Document {
   // Validate the message has required fields
   validateMessage(message);
 
-  let content: string;
-  let header: string;
-
-  switch (message.type) {
-    case 'assistant': {
-      header = pc.blue('◆ ASSISTANT');
-      content = formatAssistantMessage(message);
-      break;
-    }
-    case 'user': {
-      const userResult = formatUserMessage(message);
-      header = userResult.header;
-      content = userResult.content;
-      break;
-    }
-    case 'result': {
-      header = pc.magenta('◆ RESULT');
-      content = formatResultMessage(message);
-      break;
-    }
-    case 'system': {
-      header = pc.yellow('◆ SYSTEM');
-      content = formatSystemMessage(message);
-      break;
-    }
-    case 'stream_event': {
-      // Stream events don't get boxes
-      return formatStreamEvent(message);
-    }
-    default: {
-      header = pc.red('◆ UNKNOWN');
-      content = `[Unknown message type: ${(message as any).type}]`;
-      break;
-    }
-  }
-
-  // Skip box for empty content or stream events
-  if (!showBox || !content || content.trim().length === 0) {
-    return content;
-  }
+  const redact = createRedactor(options.redact);
+  return formatDocument(redact ? redact(message) : message, createFormatContext(options));
+}
 
-  return createBox(header, content);
+/**
+ * Formats an SDKMessage for CLI output with colors and boxes
+ * @param message The SDK message to format
+ * @param options Formatting options, or a boolean for whether to wrap the message in a box
+ * @returns Formatted string ready for CLI display
+ *
+ * @example
+ * ```typescript
+ * formatMessage(message); // ANSI colors for the terminal
+ * formatMessage(message, { renderer: 'markdown' }); // e.g. for PR comments
+ * formatMessage(message, { theme: 'ascii' }); // no emoji or box-drawing characters
+ * ```
+ */
+export function formatMessage(message: SDKMessage, options: boolean | FormatOptions = {}): string {
+  const resolved = resolveFormatOptions(options);
+  const { renderer, showBox, theme, box } = resolved;
+  return renderer.render(toDocument(message, resolved), { showBox, theme, box });
 }
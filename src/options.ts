@@ -0,0 +1,149 @@
+import type { RedactionOptions } from './redaction';
+import {
+  type BoxOptions,
+  type BoxStyle,
+  getRenderer,
+  type Renderer,
+  type RendererName,
+} from './renderers';
+import { resolveTheme, type Theme, type ThemeOption } from './themes';
+import type { PathStyle } from './tools/paths';
+import type { TruncationOptions } from './truncation';
+
+/**
+ * How thinking blocks are shown: in full, as a one-line preview, or not at all
+ */
+export type ThinkingDisplay = 'expand' | 'collapse' | 'hide';
+
+/**
+ * Options that affect which content a document contains
+ */
+export interface DocumentOptions {
+  /**
+   * How to show extended thinking (default: 'expand')
+   */
+  thinking?: ThinkingDisplay;
+
+  /**
+   * Whether to render Markdown in assistant and result text: headings, lists, emphasis,
+   * code and links (default: true); false shows the text as written
+   */
+  markdown?: boolean;
+
+  /**
+   * Whether to show each message as a single line: the role, a short preview of the text,
+   * tool calls with their key argument and token counts, with tool results as status
+   * glyphs below their call (default: false)
+   */
+  compact?: boolean;
+
+  /**
+   * Limits for long parameters, output and hook payloads, or 'unlimited' to show
+   * everything in full
+   */
+  truncation?: TruncationOptions | 'unlimited';
+
+  /**
+   * Whether to hide secrets such as API keys, tokens and private keys, or the detectors
+   * and patterns to hide them with (default: true)
+   */
+  redact?: boolean | RedactionOptions;
+
+  /**
+   * How file paths are shown: 'relative' to the session cwd when inside it, 'short' like
+   * relative with the home directory as `~`, or 'absolute' as given (default: 'absolute')
+   */
+  paths?: PathStyle;
+}
+
+/**
+ * Options for formatMessage
+ */
+export interface FormatOptions extends DocumentOptions {
+  /**
+   * Output target: 'ansi' (default), 'plain', 'markdown', 'html' or a custom renderer
+   */
+  renderer?: RendererName | Renderer;
+
+  /**
+   * Colors, icons and borders: 'default', 'monochrome', 'high-contrast', 'ascii',
+   * or overrides applied on top of the default theme
+   */
+  theme?: ThemeOption;
+
+  /**
+   * Whether to wrap the message in a box (default: true)
+   */
+  showBox?: boolean;
+
+  /**
+   * Frame style, or the style with padding and width of terminal output
+   * (default: 'rules')
+   */
+  box?: BoxStyle | BoxOptions;
+}
+
+/**
+ * Format options with defaults applied and names resolved
+ */
+export interface ResolvedFormatOptions extends DocumentOptions {
+  renderer: Renderer;
+  theme: Theme;
+  showBox: boolean;
+  box: BoxOptions;
+}
+
+const BOX_STYLES: BoxStyle[] = ['rules', 'single', 'double', 'rounded', 'heavy', 'none'];
+
+/**
+ * Normalizes the box option, rejecting unknown styles
+ */
+function resolveBoxOptions(box: BoxStyle | BoxOptions = {}): BoxOptions {
+  const options = typeof box === 'string' ? { style: box } : box;
+  if (options.style !== undefined && !BOX_STYLES.includes(options.style)) {
+    throw new Error(
+      `Unknown box style: ${options.style}. Available styles: ${BOX_STYLES.join(', ')}`
+    );
+  }
+  const { padding, width, maxWidth } = options;
+  if (padding !== undefined && !(Number.isInteger(padding) && padding >= 0)) {
+    throw new Error(`Invalid box padding: ${padding}. Expected a whole number of columns`);
+  }
+  for (const [name, value] of [
+    ['width', width],
+    ['maxWidth', maxWidth],
+  ] as const) {
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      throw new Error(`Invalid box ${name}: ${value}. Expected a positive whole number of columns`);
+    }
+  }
+  return options;
+}
+
+const PATH_STYLES: PathStyle[] = ['relative', 'short', 'absolute'];
+
+/**
+ * Resolves format options, accepting a boolean for the legacy showBox argument
+ */
+export function resolveFormatOptions(options: boolean | FormatOptions = {}): ResolvedFormatOptions {
+  const {
+    renderer,
+    showBox = true,
+    theme,
+    box,
+    ...documentOptions
+  } = typeof options === 'boolean' ? { showBox: options } : options;
+  const boxOptions = resolveBoxOptions(box);
+  const { paths } = documentOptions;
+  if (paths !== undefined && !PATH_STYLES.includes(paths)) {
+    throw new Error(`Unknown path style: ${paths}. Available styles: ${PATH_STYLES.join(', ')}`);
+  }
+
+  return {
+    ...documentOptions,
+    renderer: getRenderer(renderer),
+    theme: resolveTheme(theme),
+    showBox: showBox && boxOptions.style !== 'none',
+    box: boxOptions,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Options for hiding secrets such as API keys and tokens in formatted output
+ */
+export interface RedactionOptions {
+  /**
+   * Whether to apply the built-in detectors: Anthropic, OpenAI, AWS and GitHub keys, JWTs,
+   * Authorization headers, private key blocks and secret environment variables (default: true)
+   */
+  detectors?: boolean;
+
+  /**
+   * Additional patterns whose matches are redacted; strings are compiled as regular expressions
+   */
+  patterns?: Array<RegExp | string>;
+
+  /**
+   * Text that replaces each secret (default: '[REDACTED]')
+   */
+  replacement?: string;
+}
+
+/**
+ * Returns a copy of a value, e.g. a message, with the secrets in all its strings replaced
+ */
+export type Redactor = <T>(value: T) => T;
+
+/**
+ * A secret format; when `keep` is set, the pattern's first group (e.g. a header or variable
+ * name) is kept and only the rest of the match is replaced
+ */
+interface Detector {
+  pattern: RegExp;
+  keep?: boolean;
+}
+
+const DETECTORS: Detector[] = [
+  // Private key blocks, including unterminated ones cut off by truncation
+  {
+    pattern:
+      /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?(?:-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----|$)/g,
+  },
+  // Anthropic keys, then OpenAI keys (sk-, sk-proj-, ...)
+  { pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { pattern: /\bsk-(?:[a-z]+-)?[A-Za-z0-9_-]{20,}/g },
+  // AWS access key ids and secret access keys
+  { pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+  { pattern: /(aws_secret_access_key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}/gi, keep: true },
+  // GitHub tokens
+  { pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  // JWTs: base64url header and payload, both JSON objects
+  { pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]+/g },
+  // Authorization headers keep the header name and scheme
+  {
+    pattern:
+      /((?:Proxy-)?Authorization["']?\s*:\s*["']?(?:(?:Bearer|Basic|Token|Digest)\s+)?)[^\s"',;]+/gi,
+    keep: true,
+  },
+  { pattern: /(\bBearer\s+)[A-Za-z0-9._~+/-]{8,}=*/g, keep: true },
+  // Variables named like secrets, e.g. in .env files or `export` commands; assignments with
+  // spaces around `=` are left alone as they are more likely code, e.g. `MAX_TOKENS = 100`
+  {
+    pattern:
+      /(\b[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_KEY|PRIVATE_KEY|CREDENTIALS?)[A-Z0-9_]*=(?!=)["']?)[^\s"']+/g,
+    keep: true,
+  },
+];
+
+/**
+ * Keys whose string values are secrets as a whole, e.g. in tool inputs and hook payloads
+ */
+const SECRET_KEY =
+  /^(?:(?:proxy-)?authorization|password|passwd|(?:client[_-]?)?secret|api[_-]?key|(?:access|refresh|auth)[_-]?token|private[_-]?key)$/i;
+
+/**
+ * Compiles a user-supplied pattern, making it global so every match is replaced
+ */
+function compilePattern(pattern: RegExp | string): RegExp {
+  if (typeof pattern === 'string') return new RegExp(pattern, 'g');
+  return pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+}
+
+/**
+ * Creates the redactor for the redaction option; returns undefined when redaction is off
+ */
+export function createRedactor(option: boolean | RedactionOptions = true): Redactor | undefined {
+  if (option === false) return undefined;
+  const {
+    detectors = true,
+    patterns = [],
+    replacement = '[REDACTED]',
+  } = option === true ? {} : option;
+
+  const rules: Detector[] = [
+    ...(detectors ? DETECTORS : []),
+    ...patterns.map((pattern) => ({ pattern: compilePattern(pattern) })),
+  ];
+  if (rules.length === 0) return undefined;
+
+  const redactText = (text: string) => {
+    let redacted = text;
+    for (const { pattern, keep } of rules) {
+      redacted = redacted.replace(pattern, (match, prefix) =>
+        // Empty matches of user patterns are left alone
+        match ? (keep ? `${prefix}${replacement}` : replacement) : match
+      );
+    }
+    return redacted;
+  };
+
+  const redact = (value: unknown): unknown => {
+    if (typeof value === 'string') return redactText(value);
+    if (Array.isArray(value)) return value.map(redact);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          // Strings under keys such as `password` or `api_key` are secrets as a whole
+          detectors && typeof item === 'string' && item && SECRET_KEY.test(key)
+            ? replacement
+            : redact(item),
+        ])
+      );
+    }
+    return value;
+  };
+  return <T>(value: T) => redact(value) as T;
+}
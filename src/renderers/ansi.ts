@@ -0,0 +1,22 @@
+import pc from 'picocolors';
+import { supportsHyperlinks } from '../utils';
+import { createTextRenderer } from './text';
+
+/**
+ * Renders messages as ANSI-colored terminal output
+ */
+export const ansiRenderer = createTextRenderer(
+  (span, theme) => {
+    let text = span.text;
+    if (span.tone) {
+      text = theme.colors[span.tone].reduceRight((styled, color) => pc[color](styled), text);
+    }
+    if (span.italic) text = pc.italic(text);
+    if (span.bold) text = pc.bold(text);
+    if (span.href && supportsHyperlinks()) {
+      text = `\u001b]8;;${span.href}\u001b\\${text}\u001b]8;;\u001b\\`;
+    }
+    return text;
+  },
+  { hyperlinks: supportsHyperlinks }
+);
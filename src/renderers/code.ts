@@ -0,0 +1,10 @@
+import type { CodeBlock, Span } from '../document';
+import { highlightCode } from './highlight';
+
+/**
+ * Returns the lines of a code block as spans, highlighted by the block's language;
+ * unhighlighted text gets the block's tone
+ */
+export function codeLines(block: CodeBlock): Span[][] {
+  return highlightCode(block.code, block.language, block.tone);
+}
@@ -0,0 +1,205 @@
+import type { Span, Tone } from '../document';
+
+/**
+ * A token pattern and the tone of its matches; patterns must be sticky (`y`)
+ */
+type Rule = [pattern: RegExp, tone: Tone];
+
+interface Grammar {
+  rules: Rule[];
+  keywords: Set<string>;
+  /**
+   * Words highlighted as literals, e.g. `true` and `null`
+   */
+  literals?: Set<string>;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const NUMBER: Rule = [
+  /(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?n?)\b/y,
+  'number',
+];
+const DOUBLE_QUOTED: Rule = [/"(?:\\.|[^"\\\n])*"?/y, 'string'];
+const SINGLE_QUOTED: Rule = [/'(?:\\.|[^'\\\n])*'?/y, 'string'];
+
+/**
+ * Identifiers are consumed whole, so keywords and numbers never match inside them
+ */
+const WORD = /[A-Za-z_$][\w$]*/y;
+
+const javascript: Grammar = {
+  rules: [
+    [/\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y, 'comment'],
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    [/`(?:\\[\s\S]|[^`\\])*`?/y, 'string'],
+    NUMBER,
+  ],
+  keywords: words(
+    'abstract as async await break case catch class const continue debugger declare default delete do else enum export extends finally for from function get if implements import in instanceof interface keyof let namespace new of private protected public readonly return satisfies set static super switch this throw try type typeof var void while with yield'
+  ),
+  literals: words('true false null undefined NaN Infinity'),
+};
+
+const python: Grammar = {
+  rules: [
+    [/#[^\n]*/y, 'comment'],
+    [/[rRbBuUfF]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/y, 'string'],
+    [/[rRbBuUfF]{0,2}(?:"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?)/y, 'string'],
+    [/@[\w.]+/y, 'accent'],
+    NUMBER,
+  ],
+  keywords: words(
+    'and as assert async await break class continue def del elif else except finally for from global if import in is lambda match case nonlocal not or pass raise return try while with yield self'
+  ),
+  literals: words('True False None'),
+};
+
+const json: Grammar = {
+  rules: [
+    [/"(?:\\.|[^"\\\n])*"(?=\s*:)/y, 'accent'],
+    DOUBLE_QUOTED,
+    [/-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/y, 'number'],
+  ],
+  keywords: new Set(),
+  literals: words('true false null'),
+};
+
+const shell: Grammar = {
+  rules: [
+    // A `#` only starts a comment at the start of a word, unlike in `$#` or `a#b`
+    [/(?<![^\s;|&(])#[^\n]*/y, 'comment'],
+    DOUBLE_QUOTED,
+    [/'[^']*'?/y, 'string'],
+    [/\$(?:\{[^}\n]*\}?|\w+|[@#?$!*-])/y, 'accent'],
+    [/(?<![\w-])--?[\w-]+/y, 'muted'],
+  ],
+  keywords: words(
+    'if then else elif fi for while until do done case esac in function return export local readonly declare unset source exit'
+  ),
+};
+
+const yaml: Grammar = {
+  rules: [
+    [/(?<![^\s])#[^\n]*/y, 'comment'],
+    // Keys at the start of a line or after a sequence dash
+    [/(?<=^[ \t]*(?:-[ \t]+)*)[^\s#:'"-][^\n:#]*?(?=:(?:[ \t]|$))/my, 'accent'],
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    [/[&*][\w-]+|^---$|^\.\.\.$/my, 'muted'],
+    [/-?\d+(?:\.\d+)?\b/y, 'number'],
+  ],
+  keywords: new Set(),
+  literals: words('true false null yes no on off True False Null'),
+};
+
+/**
+ * Grammars by language name and common aliases, as used in code fences
+ */
+const GRAMMARS: Record<string, Grammar> = {
+  javascript,
+  js: javascript,
+  jsx: javascript,
+  mjs: javascript,
+  cjs: javascript,
+  typescript: javascript,
+  ts: javascript,
+  tsx: javascript,
+  python,
+  py: python,
+  json,
+  jsonc: json,
+  json5: json,
+  bash: shell,
+  sh: shell,
+  shell,
+  zsh: shell,
+  console: shell,
+  yaml,
+  yml: yaml,
+};
+
+/**
+ * Splits code into spans toned by the grammar; text it does not highlight stays untoned
+ */
+function tokenize(code: string, grammar: Grammar): Span[] {
+  const spans: Span[] = [];
+  let plain = '';
+  const push = (text: string, tone?: Tone) => {
+    if (tone === undefined) {
+      plain += text;
+      return;
+    }
+    if (plain) spans.push({ text: plain });
+    plain = '';
+    spans.push({ text, tone });
+  };
+
+  let position = 0;
+  scan: while (position < code.length) {
+    for (const [pattern, tone] of grammar.rules) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(code);
+      if (match?.[0]) {
+        push(match[0], tone);
+        position += match[0].length;
+        continue scan;
+      }
+    }
+
+    WORD.lastIndex = position;
+    const word = WORD.exec(code)?.[0];
+    if (word) {
+      const tone = grammar.keywords.has(word)
+        ? 'keyword'
+        : grammar.literals?.has(word)
+          ? 'number'
+          : undefined;
+      push(word, tone);
+      position += word.length;
+    } else {
+      push(code[position]);
+      position++;
+    }
+  }
+  if (plain) spans.push({ text: plain });
+  return spans;
+}
+
+/**
+ * Tones diff lines by their prefix
+ */
+function diffLineTone(line: string): Tone | undefined {
+  if (line.startsWith('+')) return 'success';
+  if (line.startsWith('-')) return 'error';
+  if (line.startsWith('@@')) return 'accent';
+  return undefined;
+}
+
+/**
+ * Highlights code in the given language, returning its lines as toned spans; text the
+ * language does not highlight gets the fallback tone
+ */
+export function highlightCode(code: string, language?: string, fallback?: Tone): Span[][] {
+  const name = language?.toLowerCase();
+
+  if (name === 'diff' || name === 'patch') {
+    return code.split('\n').map((line) => [{ text: line, tone: diffLineTone(line) ?? fallback }]);
+  }
+
+  const grammar = name && Object.hasOwn(GRAMMARS, name) ? GRAMMARS[name] : undefined;
+  if (!grammar) {
+    return code.split('\n').map((line) => [{ text: line, tone: fallback }]);
+  }
+
+  // Tokens may span lines (block comments, template strings), so lines are split afterwards
+  const lines: Span[][] = [[]];
+  for (const span of tokenize(code, grammar)) {
+    span.text.split('\n').forEach((segment, i) => {
+      if (i > 0) lines.push([]);
+      if (segment) lines[lines.length - 1].push({ text: segment, tone: span.tone ?? fallback });
+    });
+  }
+  return lines;
+}
@@ -0,0 +1,202 @@
+import type { Block, RichText, Tone } from '../document';
+import { toInlines, toSpans } from '../document';
+import type { ColorName, Theme } from '../themes';
+import { codeLines } from './code';
+import type { Renderer } from './index';
+
+const COLOR_CSS: Record<ColorName, string> = {
+  bold: 'font-weight: bold',
+  dim: 'opacity: 0.7',
+  italic: 'font-style: italic',
+  underline: 'text-decoration: underline',
+  inverse: 'filter: invert(1)',
+  black: 'color: #000000',
+  red: 'color: #cd3131',
+  green: 'color: #0dbc79',
+  yellow: 'color: #b58900',
+  blue: 'color: #2472c8',
+  magenta: 'color: #bc3fbc',
+  cyan: 'color: #11a8cd',
+  white: 'color: #e5e5e5',
+  gray: 'color: #767676',
+  redBright: 'color: #f14c4c',
+  greenBright: 'color: #23d18b',
+  yellowBright: 'color: #f5f543',
+  blueBright: 'color: #3b8eea',
+  magentaBright: 'color: #d670d6',
+  cyanBright: 'color: #29b8db',
+  whiteBright: 'color: #ffffff',
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function toneStyle(tone: Tone, theme: Theme): string {
+  return theme.colors[tone].map((color) => COLOR_CSS[color]).join('; ');
+}
+
+function withTone(html: string, tone: Tone | undefined, theme: Theme): string {
+  const style = tone ? toneStyle(tone, theme) : '';
+  return style ? `<span style="${style}">${html}</span>` : html;
+}
+
+function renderInline(content: RichText, theme: Theme): string {
+  return toSpans(content, theme.icons)
+    .map((span) => {
+      let html = escapeHtml(span.text).replace(/\n/g, '<br>');
+      if (span.tone === 'code') html = `<code>${html}</code>`;
+      if (span.italic) html = `<em>${html}</em>`;
+      if (span.bold) html = `<strong>${html}</strong>`;
+      // Only web links, so message content cannot inject javascript: URLs
+      if (span.href && /^https?:\/\//i.test(span.href)) {
+        html = `<a href="${escapeHtml(span.href)}">${html}</a>`;
+      }
+      return withTone(html, span.tone, theme);
+    })
+    .join('');
+}
+
+function renderBlocks(blocks: Block[], theme: Theme): string {
+  return blocks.map((block) => renderBlock(block, theme)).join('\n');
+}
+
+function renderBlock(block: Block, theme: Theme): string {
+  switch (block.type) {
+    case 'text':
+      return `<p>${renderInline(block.content, theme)}</p>`;
+    case 'field':
+      return `<div class="claude-field">${renderInline({ text: `${block.label}:`, tone: 'muted' }, theme)} ${renderInline(block.value, theme)}</div>`;
+    case 'section': {
+      const title =
+        block.title !== undefined
+          ? `<div class="claude-section-title">${renderInline(block.title, theme)}</div>\n`
+          : '';
+      return `<div class="claude-section">\n${title}${renderBlocks(block.children, theme)}\n</div>`;
+    }
+    case 'code': {
+      const language = block.language ? ` class="language-${escapeHtml(block.language)}"` : '';
+      const style = block.tone ? toneStyle(block.tone, theme) : '';
+      // Tokens toned differently from the block (e.g. keywords, diff additions) get their own span
+      const code = codeLines(block)
+        .map((line) =>
+          line
+            .map((span) =>
+              withTone(
+                escapeHtml(span.text),
+                span.tone === block.tone ? undefined : span.tone,
+                theme
+              )
+            )
+            .join('')
+        )
+        .join('\n');
+      return `<pre${style ? ` style="${style}"` : ''}><code${language}>${code}</code></pre>`;
+    }
+    case 'list': {
+      const items = block.items.map((item) => {
+        const marker = item.marker ? `${renderInline(item.marker, theme)} ` : '';
+        return `<li>${marker}${renderInline(item.content, theme)}</li>`;
+      });
+      const tag = block.ordered ? 'ol' : 'ul';
+      const start = block.ordered && block.start !== undefined ? ` start="${block.start}"` : '';
+      const list = `<${tag}${start}>\n${items.join('\n')}\n</${tag}>`;
+      if (block.summary === undefined) return list;
+      return `<details class="claude-list">\n<summary>${renderInline(block.summary, theme)}</summary>\n${list}\n</details>`;
+    }
+    case 'table': {
+      const cell = (tag: string, content: RichText, column: number) => {
+        const align = block.align?.[column];
+        const style = align ? ` style="text-align: ${align}"` : '';
+        return `<${tag}${style}>${renderInline(content, theme)}</${tag}>`;
+      };
+      const header = block.header.map((content, i) => cell('th', content, i)).join('');
+      const rows = block.rows.map(
+        (row) => `<tr>${row.map((content, i) => cell('td', content, i)).join('')}</tr>`
+      );
+      return `<table class="claude-table">
+<thead>
+<tr>${header}</tr>
+</thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>`;
+    }
+    case 'rule':
+      return '<hr>';
+    case 'tool_call':
+      return [
+        `<div class="claude-tool-call" data-tool-use-id="${escapeHtml(block.id)}">`,
+        `<div class="claude-tool-name">${renderInline([{ icon: 'tool', tone: 'accent' }, ' ', ...toInlines(block.title ?? { text: block.name, bold: true })], theme)}</div>`,
+        renderBlocks(block.children, theme),
+        '</div>',
+      ].join('\n');
+    case 'tool_result':
+      return [
+        `<div class="claude-tool-result" data-tool-use-id="${escapeHtml(block.toolUseId)}"${block.isError ? ' data-error' : ''}>`,
+        `<div class="claude-tool-status">${renderInline(
+          [
+            block.isError ? { icon: 'error', tone: 'error' } : { icon: 'success', tone: 'success' },
+            ' ',
+            ...toInlines(block.title),
+          ],
+          theme
+        )}</div>`,
+        renderBlocks(block.children, theme),
+        '</div>',
+      ].join('\n');
+  }
+}
+
+/**
+ * Renders messages as self-contained HTML fragments, e.g. for web dashboards
+ */
+export const htmlRenderer: Renderer = {
+  render(document, { showBox, theme }) {
+    // Documents without a header (stream events) are fragments of a larger text
+    if (!document.header) {
+      return document.blocks
+        .map((block) =>
+          block.type === 'text' ? renderInline(block.content, theme) : renderBlock(block, theme)
+        )
+        .join('');
+    }
+
+    if (document.blocks.length === 0) {
+      return '';
+    }
+
+    // Subagent messages are wrapped so dashboards can indent or collapse them
+    const nest = (html: string) =>
+      document.depth
+        ? `<div class="claude-subagent" data-depth="${document.depth}"${
+            document.parentToolUseId
+              ? ` data-parent-tool-use-id="${escapeHtml(document.parentToolUseId)}"`
+              : ''
+          }>\n${html}\n</div>`
+        : html;
+
+    const content = renderBlocks(document.blocks, theme);
+    if (!showBox) {
+      return nest(content);
+    }
+
+    const { title, tone, detail } = document.header;
+    const header = renderInline(
+      [
+        { text: `${theme.icons.message} ${title}`, tone, bold: true },
+        ...(detail ? [' ', { text: `(${detail})`, tone: 'muted' as const }] : []),
+      ],
+      theme
+    );
+    return nest(
+      `<section class="claude-message claude-message-${escapeHtml(document.type)}">\n<header>${header}</header>\n${content}\n</section>`
+    );
+  },
+};
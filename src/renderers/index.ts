@@ -0,0 +1,92 @@
+import type { Document } from '../document';
+import type { Theme } from '../themes';
+import { ansiRenderer } from './ansi';
+import { htmlRenderer } from './html';
+import { markdownRenderer } from './markdown';
+import { plainRenderer } from './plain';
+
+/**
+ * Names of the built-in renderers
+ */
+export type RendererName = 'ansi' | 'plain' | 'markdown' | 'html';
+
+/**
+ * How terminal renderers frame messages: rules above and below (the default), a box with
+ * single, double, rounded or heavy borders, or no frame
+ */
+export type BoxStyle = 'rules' | 'single' | 'double' | 'rounded' | 'heavy' | 'none';
+
+export interface BoxOptions {
+  /**
+   * Frame style (default: 'rules')
+   */
+  style?: BoxStyle;
+
+  /**
+   * Columns between the side walls and the content of boxes (default: 1)
+   */
+  padding?: number;
+
+  /**
+   * Fixed width in columns, instead of the terminal width
+   */
+  width?: number;
+
+  /**
+   * Largest width in columns; narrower terminals still get their own width
+   */
+  maxWidth?: number;
+}
+
+/**
+ * Options passed to a renderer for each document
+ */
+export interface RenderOptions {
+  /**
+   * Whether to wrap the document in the renderer's message frame
+   */
+  showBox: boolean;
+
+  /**
+   * Frame style and width of terminal renderers
+   */
+  box?: BoxOptions;
+
+  /**
+   * Colors, icons and border characters to render with
+   */
+  theme: Theme;
+}
+
+/**
+ * Output target for formatted messages: turns a document into a string
+ */
+export interface Renderer {
+  render(document: Document, options: RenderOptions): string;
+}
+
+const RENDERERS: Record<RendererName, Renderer> = {
+  ansi: ansiRenderer,
+  plain: plainRenderer,
+  markdown: markdownRenderer,
+  html: htmlRenderer,
+};
+
+/**
+ * Resolves a renderer name or instance to a renderer
+ */
+export function getRenderer(renderer: RendererName | Renderer = 'ansi'): Renderer {
+  if (typeof renderer !== 'string') {
+    return renderer;
+  }
+
+  const resolved = RENDERERS[renderer];
+  if (!resolved) {
+    throw new Error(
+      `Unknown renderer: ${renderer}. Available renderers: ${Object.keys(RENDERERS).join(', ')}`
+    );
+  }
+  return resolved;
+}
+
+export { ansiRenderer, htmlRenderer, markdownRenderer, plainRenderer };
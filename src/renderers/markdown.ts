@@ -0,0 +1,175 @@
+import type { Block, Inline, RichText } from '../document';
+import { plainText, toSpans } from '../document';
+import type { IconSet } from '../themes';
+import type { Renderer } from './index';
+import { delimiterRow } from './table';
+
+interface Chunk {
+  text: string;
+  list?: boolean;
+  /**
+   * Starts a new section, so it never continues the previous list
+   */
+  sectionStart?: boolean;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+}
+
+/**
+ * Wraps text in enough backticks that its own backticks cannot end the code span
+ */
+function codeSpan(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${marker}${padding}${text}${padding}${marker}`;
+}
+
+/**
+ * Renders rich text as inline Markdown, keeping line breaks as hard breaks
+ */
+function renderInline(content: RichText, icons: IconSet): string {
+  return toSpans(content, icons)
+    .map((span) =>
+      span.text
+        .split('\n')
+        .map((segment) => {
+          if (!segment.trim()) return segment;
+          let text = span.tone === 'code' ? codeSpan(segment) : escapeMarkdown(segment);
+          if (span.italic) text = `_${text}_`;
+          if (span.bold) text = `**${text}**`;
+          if (span.href) text = `[${text}](${span.href.replace(/[()\s]/g, encodeURIComponent)})`;
+          return text;
+        })
+        .join('  \n')
+    )
+    .join('');
+}
+
+/**
+ * Plain bullets are redundant with the Markdown list marker
+ */
+function isBullet(marker: Inline): boolean {
+  return typeof marker === 'object' && 'icon' in marker && marker.icon === 'bullet';
+}
+
+function fence(code: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longestRun + 1));
+}
+
+function renderBlocks(blocks: Block[], icons: IconSet, out: Chunk[]): void {
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'text':
+        out.push({ text: renderInline(block.content, icons) });
+        break;
+      case 'field':
+        out.push({
+          text: `- ${escapeMarkdown(block.label)}: ${renderInline(block.value, icons)}`,
+          list: true,
+        });
+        break;
+      case 'section': {
+        const start = out.length;
+        if (block.title !== undefined) {
+          out.push({ text: renderInline(block.title, icons) });
+        }
+        renderBlocks(block.children, icons, out);
+        if (out[start]) out[start].sectionStart = true;
+        break;
+      }
+      case 'code': {
+        const marker = fence(block.code);
+        out.push({ text: `${marker}${block.language ?? ''}\n${block.code}\n${marker}` });
+        break;
+      }
+      case 'list': {
+        const list = block.items
+          .map((item, i) => {
+            const marker =
+              item.marker && !isBullet(item.marker) ? `${renderInline(item.marker, icons)} ` : '';
+            return `${block.ordered ? `${(block.start ?? 1) + i}.` : '-'} ${marker}${renderInline(item.content, icons)}`;
+          })
+          .join('\n');
+        if (block.summary === undefined) {
+          out.push({ text: list, list: true });
+        } else {
+          // GitHub renders Markdown inside <details> when it is set off by blank lines
+          const summary = escapeHtml(plainText(block.summary, icons));
+          out.push({ text: `<details>\n<summary>${summary}</summary>\n\n${list}\n\n</details>` });
+        }
+        break;
+      }
+      case 'table': {
+        // Pipes are escaped by renderInline; line breaks would end the row
+        const row = (cells: RichText[]) =>
+          `| ${cells.map((cell) => renderInline(cell, icons).replace(/ {2}\n/g, '<br>')).join(' | ')} |`;
+        out.push({
+          text: [row(block.header), delimiterRow(block), ...block.rows.map(row)].join('\n'),
+        });
+        break;
+      }
+      case 'rule':
+        out.push({ text: '---' });
+        break;
+      case 'tool_call':
+        out.push({
+          text: `${icons.tool} ${renderInline(block.title ?? { text: block.name, bold: true }, icons)}`,
+        });
+        renderBlocks(block.children, icons, out);
+        break;
+      case 'tool_result': {
+        const icon = block.isError ? icons.error : icons.success;
+        out.push({ text: `${icon} ${renderInline(block.title, icons)}` });
+        renderBlocks(block.children, icons, out);
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Renders messages as GitHub-flavored Markdown, e.g. for PR comments
+ */
+export const markdownRenderer: Renderer = {
+  render(document, { showBox, theme }) {
+    const chunks: Chunk[] = [];
+    renderBlocks(document.blocks, theme.icons, chunks);
+
+    // Consecutive list-like chunks (fields, list items) form a single list
+    const content = chunks
+      .map((chunk, i) => {
+        if (i === 0) return chunk.text;
+        const separator = chunk.list && chunks[i - 1].list && !chunk.sectionStart ? '\n' : '\n\n';
+        return `${separator}${chunk.text}`;
+      })
+      .join('');
+
+    // Subagent messages are quoted once per nesting level
+    const depth = document.header ? (document.depth ?? 0) : 0;
+    const nest = (text: string) =>
+      depth > 0
+        ? text
+            .split('\n')
+            .map((line) => `${'>'.repeat(depth)} ${line}`.trimEnd())
+            .join('\n')
+        : text;
+
+    if (!showBox || !document.header || content.trim().length === 0) {
+      return content && nest(content);
+    }
+
+    const { title, detail } = document.header;
+    const suffix = detail ? ` (${escapeMarkdown(detail)})` : '';
+    return nest(
+      `### ${theme.icons.message} ${escapeMarkdown(title)}${suffix}\n\n${content}\n\n---`
+    );
+  },
+};
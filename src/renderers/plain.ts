@@ -0,0 +1,6 @@
+import { createTextRenderer } from './text';
+
+/**
+ * Renders messages as plain text without any escape codes, e.g. for CI logs
+ */
+export const plainRenderer = createTextRenderer((span) => span.text);
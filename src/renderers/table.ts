@@ -0,0 +1,66 @@
+import type { ColumnAlignment, TableBlock } from '../document';
+
+/**
+ * Table columns are not narrowed below this; tables whose columns cannot fit are shown
+ * as written
+ */
+const MIN_COLUMN_WIDTH = 6;
+
+/**
+ * Fits columns into the available width by narrowing the widest columns first; returns
+ * undefined when they cannot fit
+ */
+export function fitColumns(natural: number[], available: number): number[] | undefined {
+  if (natural.reduce((sum, width) => sum + width, 0) <= available) return natural;
+  const minimum = natural.reduce((sum, width) => sum + Math.min(width, MIN_COLUMN_WIDTH), 0);
+  if (minimum > available) return undefined;
+
+  // Columns narrower than an even share of the remaining width keep their width
+  const widths = [...natural];
+  const order = natural.map((_, i) => i).sort((a, b) => natural[a] - natural[b]);
+  let remaining = available;
+  for (let k = 0; k < order.length; k++) {
+    const share = Math.floor(remaining / (order.length - k));
+    if (natural[order[k]] <= share) {
+      remaining -= natural[order[k]];
+      continue;
+    }
+    const rest = order.slice(k);
+    rest.forEach((column, i) => {
+      widths[column] = share + (i < remaining - share * rest.length ? 1 : 0);
+    });
+    break;
+  }
+  return widths;
+}
+
+/**
+ * Pads a painted line of the given length to the column width
+ */
+export function alignLine(
+  line: string,
+  length: number,
+  width: number,
+  align?: ColumnAlignment
+): string {
+  const padding = Math.max(0, width - length);
+  if (align === 'right') return `${' '.repeat(padding)}${line}`;
+  if (align === 'center') {
+    const left = Math.floor(padding / 2);
+    return `${' '.repeat(left)}${line}${' '.repeat(padding - left)}`;
+  }
+  return `${line}${' '.repeat(padding)}`;
+}
+
+/**
+ * Returns the Markdown delimiter row of a table, e.g. `| --- | :-: |`
+ */
+export function delimiterRow(block: TableBlock): string {
+  const cells = block.header.map((_, column) => {
+    const align = block.align?.[column];
+    const left = align === 'left' || align === 'center' ? ':' : '';
+    const right = align === 'right' || align === 'center' ? ':' : '';
+    return `${left}---${right}`;
+  });
+  return `| ${cells.join(' | ')} |`;
+}
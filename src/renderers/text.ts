@@ -0,0 +1,377 @@
+import type { Block, RichText, Span, TableBlock } from '../document';
+import { plainText, toInlines, toSpans } from '../document';
+import { type BorderChars, doubleBorder, heavyBorder, roundedBorder, type Theme } from '../themes';
+import { createBox, getTerminalWidth, sliceToWidth, stringWidth } from '../utils';
+import { codeLines } from './code';
+import type { BoxStyle, Renderer } from './index';
+import { alignLine, delimiterRow, fitColumns } from './table';
+
+/**
+ * Applies a span's styling to its text
+ */
+export type Painter = (span: Span, theme: Theme) => string;
+
+export interface TextRendererOptions {
+  /**
+   * Whether the painter makes links clickable; otherwise link targets are shown after
+   * their text (default: never)
+   */
+  hyperlinks?: () => boolean;
+}
+
+/**
+ * Lines are never wrapped narrower than this, however deep the indentation, unless the
+ * output itself is narrower
+ */
+const MIN_WRAP_WIDTH = 20;
+
+/**
+ * Width of horizontal rules, e.g. Markdown thematic breaks
+ */
+const RULE_WIDTH = 40;
+
+/**
+ * Breaks spans into lines of at most `width` columns at whitespace, splitting words
+ * longer than a line; explicit line breaks and leading indentation are kept
+ */
+function wrapSpans(spans: Span[], width: number): Span[][] {
+  const lines: Span[][] = [[]];
+  let column = 0;
+  let wrapped = false;
+
+  const append = (span: Span, text: string) => {
+    lines[lines.length - 1].push({ ...span, text });
+    column += stringWidth(text);
+  };
+  const breakLine = (soft: boolean) => {
+    const line = lines[lines.length - 1];
+    const last = line[line.length - 1];
+    if (soft && last) last.text = last.text.trimEnd();
+    lines.push([]);
+    column = 0;
+    wrapped = soft;
+  };
+
+  for (const span of spans) {
+    for (const token of span.text.split(/(\n|[^\S\n]+)/)) {
+      if (!token) continue;
+      if (token === '\n') {
+        breakLine(false);
+      } else if (!token.trim()) {
+        // Whitespace at a wrapped line's start is the space the line was broken at
+        if (!(wrapped && column === 0)) append(span, token);
+      } else {
+        let word = token;
+        if (column > 0 && column + stringWidth(word) > width) breakLine(true);
+        while (word && stringWidth(word) > width) {
+          // Always take a character, even one wider than the line
+          const head = sliceToWidth(word, width) || String.fromCodePoint(word.codePointAt(0) ?? 0);
+          append(span, head);
+          breakLine(true);
+          word = word.slice(head.length);
+        }
+        append(span, word);
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Returns the border characters of a box style; themes with ASCII borders keep them for
+ * every style, as their terminals may not show box-drawing characters
+ */
+function boxBorder(style: BoxStyle, theme: Theme): BorderChars {
+  if (style === 'rules' || style === 'single' || style === 'none') return theme.border;
+  if (/^[ -~]+$/.test(theme.border.horizontal)) return theme.border;
+  return { double: doubleBorder, rounded: roundedBorder, heavy: heavyBorder }[style];
+}
+
+/**
+ * Creates a line-based terminal renderer; the painter decides how spans are styled
+ */
+export function createTextRenderer(paint: Painter, options: TextRendererOptions = {}): Renderer {
+  const { hyperlinks = () => false } = options;
+
+  /**
+   * Resolves icons and, where links cannot be clicked, shows their targets after the text
+   */
+  function spansOf(content: RichText, theme: Theme): Span[] {
+    const linked = hyperlinks();
+    return toSpans(content, theme.icons).flatMap((span) =>
+      span.href && !linked && span.text.trim() !== span.href
+        ? [span, { text: ` (${span.href})`, tone: 'muted' as const }]
+        : [span]
+    );
+  }
+
+  return {
+    render(document, { showBox, theme, box = {} }) {
+      // Subagent messages get a tree guide per nesting level; inline stream fragments cannot
+      const depth = document.header ? (document.depth ?? 0) : 0;
+      const guide = `${theme.border.vertical} `.repeat(depth);
+      const { style = 'rules', padding = 1 } = box;
+      const walls = showBox && document.header !== undefined && style !== 'rules';
+      const boxWidth =
+        (box.width ?? Math.min(getTerminalWidth(), box.maxWidth ?? Number.POSITIVE_INFINITY)) -
+        stringWidth(guide);
+      // Content of boxes with walls fits between them, at least a column even in tiny boxes
+      const width = Math.max(1, walls ? boxWidth - 2 - 2 * padding : boxWidth);
+
+      /**
+       * Renders rich text into lines, painting each line segment separately
+       * so styles never span line breaks
+       */
+      function renderInline(content: RichText): string[] {
+        const lines = [''];
+        for (const span of spansOf(content, theme)) {
+          span.text.split('\n').forEach((segment, i) => {
+            if (i > 0) lines.push('');
+            if (segment) lines[lines.length - 1] += paint({ ...span, text: segment }, theme);
+          });
+        }
+        return lines;
+      }
+
+      /**
+       * Renders rich text into lines that fit the output width at the given indentation
+       */
+      function renderWrapped(content: RichText, indent: number): string[] {
+        const wrapWidth = Math.max(Math.min(MIN_WRAP_WIDTH, width), width - indent);
+        return wrapSpans(spansOf(content, theme), wrapWidth).map((line) =>
+          line.map((span) => (span.text ? paint(span, theme) : '')).join('')
+        );
+      }
+
+      /**
+       * Draws a table with aligned columns that fit the output width, wrapping long cells;
+       * tables too wide for that are shown as Markdown rows
+       */
+      function renderTable(block: TableBlock, indent: number): string[] {
+        const cells = [block.header, ...block.rows].map((row) =>
+          row.map((cell) => spansOf(cell, theme))
+        );
+        const natural = block.header.map((_, column) =>
+          Math.max(
+            0,
+            ...cells.flatMap((row) =>
+              plainText(row[column] ?? [])
+                .split('\n')
+                .map(stringWidth)
+            )
+          )
+        );
+        // Each column takes its width plus a padded separator: `│ cell ` and a closing `│`
+        const widths = fitColumns(natural, width - indent - 3 * natural.length - 1);
+        if (!widths) return renderRawTable(block);
+
+        const { border } = theme;
+        const rule = (left: string, junction: string, right: string) =>
+          paint(
+            {
+              text: `${left}${widths.map((w) => border.horizontal.repeat(w + 2)).join(junction)}${right}`,
+              tone: 'muted',
+            },
+            theme
+          );
+        const separator = paint({ text: border.vertical, tone: 'muted' }, theme);
+
+        const renderRow = (row: Span[][], header: boolean): string[] => {
+          const wrapped = row.map((spans, column) =>
+            wrapSpans(
+              header ? spans.map((span) => ({ ...span, bold: true })) : spans,
+              widths[column]
+            )
+          );
+          const height = Math.max(...wrapped.map((lines) => lines.length));
+          return Array.from({ length: height }, (_, i) => {
+            const line = wrapped.map((lines, column) => {
+              const spans = lines[i] ?? [];
+              const text = spans.map((span) => (span.text ? paint(span, theme) : '')).join('');
+              return alignLine(
+                text,
+                stringWidth(plainText(spans)),
+                widths[column],
+                block.align?.[column]
+              );
+            });
+            return `${separator} ${line.join(` ${separator} `)} ${separator}`;
+          });
+        };
+
+        const [header, ...rows] = cells;
+        return [
+          rule(border.topLeft, border.topTee, border.topRight),
+          ...renderRow(header, true),
+          rule(border.leftTee, border.cross, border.rightTee),
+          ...rows.flatMap((row) => renderRow(row, false)),
+          rule(border.bottomLeft, border.bottomTee, border.bottomRight),
+        ];
+      }
+
+      function renderRawTable(block: TableBlock): string[] {
+        const row = (cells: RichText[]) =>
+          renderInline([
+            '| ',
+            ...cells.flatMap((cell, i) => (i > 0 ? [' | ', ...toInlines(cell)] : toInlines(cell))),
+            ' |',
+          ]);
+        return [
+          ...row(block.header),
+          paint({ text: delimiterRow(block), tone: 'muted' }, theme),
+          ...block.rows.flatMap(row),
+        ];
+      }
+
+      function indentLines(lines: string[], indent: number): string[] {
+        const pad = ' '.repeat(indent);
+        return lines.map((line) => (line ? `${pad}${line}` : line));
+      }
+
+      function separate(out: string[]): void {
+        if (out.length > 0) out.push('');
+      }
+
+      function renderBlocks(blocks: Block[], indent: number, out: string[]): void {
+        for (const block of blocks) {
+          // A section's own indent applies to its children, not its title
+          const own = block.type === 'section' ? 0 : 'indent' in block ? (block.indent ?? 0) : 0;
+          renderBlock(block, indent + own, out);
+        }
+      }
+
+      function renderBlock(block: Block, indent: number, out: string[]): void {
+        switch (block.type) {
+          case 'text':
+            out.push(
+              ...indentLines(
+                block.wrap ? renderWrapped(block.content, indent) : renderInline(block.content),
+                indent
+              )
+            );
+            break;
+          case 'field': {
+            const [first, ...rest] = renderInline(block.value);
+            const label = paint({ text: `${block.label}:`, tone: 'muted' }, theme);
+            out.push(...indentLines([`${label} ${first}`, ...rest], indent));
+            break;
+          }
+          case 'section':
+            separate(out);
+            if (block.title !== undefined) {
+              out.push(...indentLines(renderInline(block.title), indent));
+            }
+            renderBlocks(block.children, indent + (block.indent ?? 0), out);
+            break;
+          case 'code':
+            out.push(
+              ...indentLines(
+                codeLines(block).map((line) =>
+                  line.map((span) => (span.text ? paint(span, theme) : '')).join('')
+                ),
+                indent
+              )
+            );
+            break;
+          case 'list': {
+            // Items of summarized lists are indented below the summary line
+            if (block.summary !== undefined) {
+              out.push(...indentLines(renderInline(block.summary), indent));
+            }
+            const itemIndent = block.summary === undefined ? indent : indent + 2;
+            const start = block.start ?? 1;
+            block.items.forEach((item, i) => {
+              const markerText = block.ordered
+                ? `${start + i}.`
+                : plainText(item.marker ?? { icon: 'bullet' }, theme.icons);
+              const marker = block.ordered
+                ? paint({ text: markerText, tone: 'muted' }, theme)
+                : renderInline(item.marker ?? { icon: 'bullet' })[0];
+              const [first, ...rest] = block.wrap
+                ? renderWrapped(item.content, itemIndent + stringWidth(markerText) + 1)
+                : renderInline(item.content);
+              // Continuation lines of numbered and wrapped items line up with the first line's text
+              const hanging =
+                block.ordered || block.wrap ? indentLines(rest, stringWidth(markerText) + 1) : rest;
+              out.push(...indentLines([`${marker} ${first}`, ...hanging], itemIndent));
+            });
+            break;
+          }
+          case 'table':
+            out.push(...indentLines(renderTable(block, indent), indent));
+            break;
+          case 'rule':
+            out.push(
+              ...indentLines(
+                [paint({ text: theme.border.horizontal.repeat(RULE_WIDTH), tone: 'muted' }, theme)],
+                indent
+              )
+            );
+            break;
+          case 'tool_call':
+            separate(out);
+            out.push(
+              ...indentLines(
+                renderInline([
+                  { icon: 'tool', tone: 'accent' },
+                  ' ',
+                  ...toInlines(block.title ?? { text: block.name, bold: true }),
+                ]),
+                indent
+              )
+            );
+            renderBlocks(block.children, indent, out);
+            break;
+          case 'tool_result':
+            separate(out);
+            out.push(
+              ...indentLines(
+                renderInline([
+                  block.isError
+                    ? { icon: 'error', tone: 'error' }
+                    : { icon: 'success', tone: 'success' },
+                  ' ',
+                  ...toInlines(block.title),
+                ]),
+                indent
+              )
+            );
+            renderBlocks(block.children, indent, out);
+            break;
+        }
+      }
+
+      const lines: string[] = [];
+      renderBlocks(document.blocks, 0, lines);
+      const content = lines.join('\n');
+
+      const nest = (text: string) =>
+        depth > 0
+          ? text
+              .split('\n')
+              .map((line) => `${paint({ text: guide, tone: 'muted' }, theme)}${line}`)
+              .join('\n')
+          : text;
+
+      // Skip box for empty content or documents without a header (stream events)
+      if (!showBox || !document.header || content.trim().length === 0) {
+        return content && nest(content);
+      }
+
+      const { title, tone, detail } = document.header;
+      let header = paint({ text: `${theme.icons.message} ${title}`, tone }, theme);
+      if (detail) {
+        header += ` ${paint({ text: `(${detail})`, tone: 'muted' }, theme)}`;
+      }
+      return nest(
+        createBox(header, content, {
+          border: boxBorder(style, theme),
+          walls,
+          padding,
+          paint: (line) => paint({ text: line, tone: 'muted' }, theme),
+          width: boxWidth,
+        })
+      );
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { createFormatContext, type FormatContext, recordMessage } from './context';
+import type { Document } from './document';
+import { formatDocument } from './formatters';
+import { type FormatOptions, type ResolvedFormatOptions, resolveFormatOptions } from './options';
+import { createRedactor, type Redactor } from './redaction';
+import { validateMessage } from './validation';
+
+/**
+ * Formats the messages of one session in order, remembering what earlier messages
+ * established: the working directory and model from the init message, and tool calls
+ * so their results can be shown as e.g. `✓ Read package.json (12 lines)`.
+ */
+export class SessionRenderer {
+  private readonly options: ResolvedFormatOptions;
+  private readonly redact: Redactor | undefined;
+  private context: FormatContext;
+
+  constructor(options: FormatOptions = {}) {
+    this.options = resolveFormatOptions(options);
+    this.redact = createRedactor(this.options.redact);
+    this.context = createFormatContext(this.options);
+  }
+
+  /**
+   * Working directory reported by the session's init message
+   */
+  get cwd(): string | undefined {
+    return this.context.cwd;
+  }
+
+  /**
+   * Model reported by the session's init message
+   */
+  get model(): string | undefined {
+    return this.context.model;
+  }
+
+  /**
+   * Converts the next message of the session into a document
+   */
+  toDocument(message: SDKMessage): Document {
+    validateMessage(message);
+    // Secrets are redacted before they can be remembered, e.g. as file content
+    const redacted = this.redact ? this.redact(message) : message;
+    const document = formatDocument(redacted, this.context);
+    recordMessage(this.context, redacted);
+    return document;
+  }
+
+  /**
+   * Formats the next message of the session
+   */
+  format(message: SDKMessage): string {
+    const { renderer, showBox, theme, box } = this.options;
+    return renderer.render(this.toDocument(message), { showBox, theme, box });
+  }
+
+  /**
+   * Forgets everything seen so far, e.g. before rendering a new session
+   */
+  reset(): void {
+    this.context = createFormatContext(this.options);
+  }
+}
+
+/**
+ * Creates a renderer for the messages of a single session
+ * @example
+ * ```typescript
+ * const session = createSessionRenderer();
+ * for await (const message of query({ prompt })) {
+ *   console.log(session.format(message));
+ * }
+ * ```
+ */
+export function createSessionRenderer(options: FormatOptions = {}): SessionRenderer {
+  return new SessionRenderer(options);
+}
@@ -0,0 +1,206 @@
+import type { Redactor } from './redaction';
+import type { BetaContentBlock, BetaRawMessageStreamEvent, BetaUsage } from './types';
+
+/**
+ * A content block assembled from stream events
+ */
+export interface StreamBlock {
+  index: number;
+  type: string;
+  /**
+   * Text received so far for text and thinking blocks, redacted once the block stops
+   */
+  text: string;
+  /**
+   * Streamed text ready to show after the latest event, redacted
+   */
+  ready: string;
+  /**
+   * The trailing partial token of the streamed text, held back until the next delta or the
+   * block stop as a secret can be split across deltas
+   */
+  pending: string;
+  /**
+   * Signature of a thinking block, or the encrypted data of a redacted one
+   */
+  signature: string;
+  id?: string;
+  name?: string;
+  /**
+   * Raw tool input received so far, buffered until the block stops
+   */
+  partialJson: string;
+  /**
+   * Parsed tool input, set once the block stops and the JSON is valid
+   */
+  input?: Record<string, unknown>;
+  complete: boolean;
+}
+
+/**
+ * Reassembles streamed messages: tracks content blocks by index, buffers tool input
+ * until each block stops, and keeps the stop reason and usage from `message_delta`.
+ */
+export class StreamAccumulator {
+  private blocks = new Map<number, StreamBlock>();
+  private readonly redact: Redactor | undefined;
+
+  /**
+   * Why the current message stopped, e.g. `end_turn` or `tool_use`
+   */
+  stopReason?: string;
+
+  /**
+   * Token usage of the current message, updated by `message_start` and `message_delta`
+   */
+  usage?: BetaUsage;
+
+  /**
+   * @param redact Applied to streamed text and tool input once joined, as a secret can be
+   * split across the fragments of delta events
+   */
+  constructor(redact?: Redactor) {
+    this.redact = redact;
+  }
+
+  /**
+   * Applies an event and returns the block it affected, if any
+   */
+  push(event: BetaRawMessageStreamEvent): StreamBlock | undefined {
+    switch (event.type) {
+      case 'message_start':
+        this.reset();
+        this.usage = event.message?.usage;
+        return undefined;
+
+      case 'content_block_start': {
+        const { content_block: start } = event;
+        const block: StreamBlock = {
+          index: event.index,
+          type: start.type,
+          text: String(start.text ?? start.thinking ?? ''),
+          ready: '',
+          pending: '',
+          signature: String(start.signature ?? start.data ?? ''),
+          id: start.id,
+          name: start.name,
+          partialJson: '',
+          complete: false,
+        };
+        this.blocks.set(event.index, block);
+        return block;
+      }
+
+      case 'content_block_delta': {
+        const block = this.blocks.get(event.index);
+        if (!block) return undefined;
+        if (event.delta.type === 'text_delta') {
+          this.stream(block, event.delta.text);
+        } else if (event.delta.type === 'input_json_delta') {
+          block.partialJson += event.delta.partial_json;
+        } else if (event.delta.type === 'thinking_delta') {
+          this.stream(block, event.delta.thinking);
+        } else if (event.delta.type === 'signature_delta') {
+          block.signature += event.delta.signature;
+        }
+        return block;
+      }
+
+      case 'content_block_stop': {
+        const block = this.blocks.get(event.index);
+        if (!block) return undefined;
+        block.complete = true;
+        block.ready = this.redactText(block.pending);
+        block.pending = '';
+        block.text = this.redactText(block.text);
+        if (block.type === 'tool_use') {
+          block.input = parseToolInput(block.partialJson);
+          // Secrets are only recognizable once the fragments are joined
+          if (this.redact) {
+            block.input = block.input && this.redact(block.input);
+            block.partialJson = this.redact(block.partialJson);
+          }
+        }
+        return block;
+      }
+
+      case 'message_delta':
+        if (event.delta?.stop_reason) {
+          this.stopReason = event.delta.stop_reason;
+        }
+        if (event.usage) {
+          this.usage = { ...this.usage, ...event.usage };
+        }
+        return undefined;
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Appends streamed text to a block, making it ready to show up to its trailing partial
+   * token
+   */
+  private stream(block: StreamBlock, text: string): void {
+    block.text += text;
+    const joined = block.pending + text;
+    const end = joined.search(/\S*$/);
+    block.ready = this.redactText(joined.slice(0, end));
+    block.pending = joined.slice(end);
+  }
+
+  private redactText(text: string): string {
+    return this.redact && text ? this.redact(text) : text;
+  }
+
+  /**
+   * Returns the block at the given index
+   */
+  get(index: number): StreamBlock | undefined {
+    return this.blocks.get(index);
+  }
+
+  /**
+   * Returns the completed content blocks in content order
+   */
+  content(): BetaContentBlock[] {
+    return [...this.blocks.values()]
+      .filter((block) => block.complete)
+      .sort((a, b) => a.index - b.index)
+      .flatMap((block): BetaContentBlock[] => {
+        if (block.type === 'text') {
+          return [{ type: 'text', text: block.text }];
+        }
+        if (block.type === 'tool_use' && block.id && block.name) {
+          return [{ type: 'tool_use', id: block.id, name: block.name, input: block.input ?? {} }];
+        }
+        if (block.type === 'thinking') {
+          return [{ type: 'thinking', thinking: block.text, signature: block.signature }];
+        }
+        if (block.type === 'redacted_thinking') {
+          return [{ type: 'redacted_thinking', data: block.signature }];
+        }
+        return [];
+      });
+  }
+
+  reset(): void {
+    this.blocks = new Map();
+    this.stopReason = undefined;
+    this.usage = undefined;
+  }
+}
+
+/**
+ * Parses buffered tool input; an empty buffer is an empty input
+ */
+function parseToolInput(json: string): Record<string, unknown> | undefined {
+  if (!json.trim()) return {};
+  try {
+    const input = JSON.parse(json);
+    return input && typeof input === 'object' && !Array.isArray(input) ? input : undefined;
+  } catch {
+    return undefined;
+  }
+}
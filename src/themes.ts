@@ -0,0 +1,347 @@
+import type { Tone } from './document';
+
+/**
+ * Terminal colors and modifiers a theme can assign to a tone
+ */
+export type ColorName =
+  | 'bold'
+  | 'dim'
+  | 'italic'
+  | 'underline'
+  | 'inverse'
+  | 'black'
+  | 'red'
+  | 'green'
+  | 'yellow'
+  | 'blue'
+  | 'magenta'
+  | 'cyan'
+  | 'white'
+  | 'gray'
+  | 'redBright'
+  | 'greenBright'
+  | 'yellowBright'
+  | 'blueBright'
+  | 'magentaBright'
+  | 'cyanBright'
+  | 'whiteBright';
+
+/**
+ * Icons used by the formatters, referenced by name in documents
+ */
+export type IconName =
+  | 'message'
+  | 'tool'
+  | 'success'
+  | 'error'
+  | 'warning'
+  | 'pending'
+  | 'inProgress'
+  | 'bullet'
+  | 'hook'
+  | 'compacted'
+  | 'preToolUse'
+  | 'postToolUse'
+  | 'notification'
+  | 'userPrompt'
+  | 'sessionStartup'
+  | 'sessionResume'
+  | 'sessionClear'
+  | 'sessionCompact'
+  | 'sessionOther'
+  | 'sessionEnd'
+  | 'stopActive'
+  | 'stopInactive'
+  | 'compactManual'
+  | 'compactAuto'
+  | 'compactOther'
+  | 'ellipsis'
+  | 'range'
+  | 'mcpSeparator';
+
+export type IconSet = Record<IconName, string>;
+
+/**
+ * Characters used to draw boxes and rules
+ */
+export interface BorderChars {
+  horizontal: string;
+  vertical: string;
+  topLeft: string;
+  topRight: string;
+  bottomLeft: string;
+  bottomRight: string;
+  /**
+   * Junctions where table columns meet the borders and the header rule
+   */
+  topTee: string;
+  bottomTee: string;
+  leftTee: string;
+  rightTee: string;
+  cross: string;
+}
+
+/**
+ * Visual theme: colors per semantic tone, icons and border characters
+ */
+export interface Theme {
+  name: string;
+  /**
+   * Colors and modifiers applied to each tone; an empty list leaves text unstyled
+   */
+  colors: Record<Tone, ColorName[]>;
+  icons: IconSet;
+  border: BorderChars;
+}
+
+export type ThemeName = 'default' | 'monochrome' | 'high-contrast' | 'ascii';
+
+/**
+ * A built-in theme name, or overrides applied on top of the default theme
+ */
+export type ThemeOption = ThemeName | ThemeOverrides;
+
+export interface ThemeOverrides {
+  name?: string;
+  colors?: Partial<Record<Tone, ColorName[]>>;
+  icons?: Partial<IconSet>;
+  border?: Partial<BorderChars>;
+}
+
+export const emojiIcons: IconSet = {
+  message: '◆',
+  tool: '→',
+  success: '✓',
+  error: '✗',
+  warning: '⚠',
+  pending: '○',
+  inProgress: '◐',
+  bullet: '•',
+  hook: '⚙',
+  compacted: '⚡',
+  preToolUse: '🔧',
+  postToolUse: '✅',
+  notification: '🔔',
+  userPrompt: '📝',
+  sessionStartup: '🚀',
+  sessionResume: '▶️',
+  sessionClear: '🔄',
+  sessionCompact: '📦',
+  sessionOther: '📍',
+  sessionEnd: '🛑',
+  stopActive: '⏸️',
+  stopInactive: '🛑',
+  compactManual: '👆',
+  compactAuto: '🤖',
+  compactOther: '📦',
+  ellipsis: '…',
+  range: '–',
+  mcpSeparator: '›',
+};
+
+/**
+ * Icons for terminals that render emoji or box-drawing characters badly
+ */
+export const asciiIcons: IconSet = {
+  message: '#',
+  tool: '->',
+  success: '+',
+  error: 'x',
+  warning: '!',
+  pending: 'o',
+  inProgress: '>',
+  bullet: '*',
+  hook: '*',
+  compacted: '~',
+  preToolUse: '[pre]',
+  postToolUse: '[post]',
+  notification: '[!]',
+  userPrompt: '[prompt]',
+  sessionStartup: '[start]',
+  sessionResume: '[resume]',
+  sessionClear: '[clear]',
+  sessionCompact: '[compact]',
+  sessionOther: '[session]',
+  sessionEnd: '[end]',
+  stopActive: '[pause]',
+  stopInactive: '[stop]',
+  compactManual: '[manual]',
+  compactAuto: '[auto]',
+  compactOther: '[compact]',
+  ellipsis: '...',
+  range: '-',
+  mcpSeparator: '>',
+};
+
+export const unicodeBorder: BorderChars = {
+  horizontal: '─',
+  vertical: '│',
+  topLeft: '┌',
+  topRight: '┐',
+  bottomLeft: '└',
+  bottomRight: '┘',
+  topTee: '┬',
+  bottomTee: '┴',
+  leftTee: '├',
+  rightTee: '┤',
+  cross: '┼',
+};
+
+export const doubleBorder: BorderChars = {
+  horizontal: '═',
+  vertical: '║',
+  topLeft: '╔',
+  topRight: '╗',
+  bottomLeft: '╚',
+  bottomRight: '╝',
+  topTee: '╦',
+  bottomTee: '╩',
+  leftTee: '╠',
+  rightTee: '╣',
+  cross: '╬',
+};
+
+export const roundedBorder: BorderChars = {
+  ...unicodeBorder,
+  topLeft: '╭',
+  topRight: '╮',
+  bottomLeft: '╰',
+  bottomRight: '╯',
+};
+
+export const heavyBorder: BorderChars = {
+  horizontal: '━',
+  vertical: '┃',
+  topLeft: '┏',
+  topRight: '┓',
+  bottomLeft: '┗',
+  bottomRight: '┛',
+  topTee: '┳',
+  bottomTee: '┻',
+  leftTee: '┣',
+  rightTee: '┫',
+  cross: '╋',
+};
+
+export const asciiBorder: BorderChars = {
+  horizontal: '-',
+  vertical: '|',
+  topLeft: '+',
+  topRight: '+',
+  bottomLeft: '+',
+  bottomRight: '+',
+  topTee: '+',
+  bottomTee: '+',
+  leftTee: '+',
+  rightTee: '+',
+  cross: '+',
+};
+
+const defaultColors: Record<Tone, ColorName[]> = {
+  assistant: ['blue'],
+  user: ['green'],
+  result: ['magenta'],
+  system: ['yellow'],
+  unknown: ['red'],
+  success: ['green'],
+  error: ['red'],
+  warning: ['yellow'],
+  info: ['blue'],
+  accent: ['cyan'],
+  highlight: ['magenta'],
+  cost: ['yellow'],
+  code: ['gray'],
+  muted: ['dim'],
+  keyword: ['magenta'],
+  string: ['green'],
+  number: ['yellow'],
+  comment: ['gray', 'italic'],
+};
+
+export const themes: Record<ThemeName, Theme> = {
+  default: {
+    name: 'default',
+    colors: defaultColors,
+    icons: emojiIcons,
+    border: unicodeBorder,
+  },
+  monochrome: {
+    name: 'monochrome',
+    colors: {
+      assistant: ['bold'],
+      user: ['bold'],
+      result: ['bold'],
+      system: ['bold'],
+      unknown: ['bold'],
+      success: [],
+      error: ['bold'],
+      warning: ['bold'],
+      info: [],
+      accent: [],
+      highlight: [],
+      cost: [],
+      code: [],
+      muted: ['dim'],
+      keyword: ['bold'],
+      string: [],
+      number: [],
+      comment: ['dim'],
+    },
+    icons: emojiIcons,
+    border: unicodeBorder,
+  },
+  'high-contrast': {
+    name: 'high-contrast',
+    colors: {
+      assistant: ['bold', 'blueBright'],
+      user: ['bold', 'greenBright'],
+      result: ['bold', 'magentaBright'],
+      system: ['bold', 'yellowBright'],
+      unknown: ['bold', 'redBright'],
+      success: ['greenBright'],
+      error: ['bold', 'redBright'],
+      warning: ['yellowBright'],
+      info: ['blueBright'],
+      accent: ['cyanBright'],
+      highlight: ['magentaBright'],
+      cost: ['yellowBright'],
+      code: ['whiteBright'],
+      muted: ['white'],
+      keyword: ['magentaBright'],
+      string: ['greenBright'],
+      number: ['yellowBright'],
+      comment: ['white', 'italic'],
+    },
+    icons: emojiIcons,
+    border: unicodeBorder,
+  },
+  ascii: {
+    name: 'ascii',
+    colors: defaultColors,
+    icons: asciiIcons,
+    border: asciiBorder,
+  },
+};
+
+/**
+ * Resolves a theme name or overrides to a complete theme
+ */
+export function resolveTheme(theme: ThemeOption = 'default'): Theme {
+  if (typeof theme === 'string') {
+    const resolved = themes[theme];
+    if (!resolved) {
+      throw new Error(
+        `Unknown theme: ${theme}. Available themes: ${Object.keys(themes).join(', ')}`
+      );
+    }
+    return resolved;
+  }
+
+  const base = themes.default;
+  return {
+    name: theme.name ?? 'custom',
+    colors: { ...base.colors, ...theme.colors },
+    icons: { ...base.icons, ...theme.icons },
+    border: { ...base.border, ...theme.border },
+  };
+}
@@ -0,0 +1,118 @@
+import type { Block, Inline } from '../document';
+import { resolveTruncation } from '../truncation';
+import type { ToolRenderer } from './index';
+import { outputBlocks } from './output';
+
+/**
+ * Formats a timeout in milliseconds as e.g. `90s` or `2m`
+ */
+function formatTimeout(ms: number): string {
+  const seconds = ms / 1000;
+  return seconds >= 60 && seconds % 60 === 0 ? `${seconds / 60}m` : `${seconds}s`;
+}
+
+interface BashOutput {
+  stdout: string;
+  stderr: string;
+  exitCode?: number;
+  interrupted?: boolean;
+}
+
+/**
+ * Splits a Bash result into stdout, stderr and exit code. Accepts the structured
+ * response of PostToolUse hooks or the text of a tool_result, where failed commands
+ * start with `Exit code N` and streams may be wrapped in `<stdout>`/`<stderr>` tags.
+ */
+function parseBashOutput(text: string, value: unknown): BashOutput {
+  if (value && typeof value === 'object' && 'stdout' in value) {
+    const response = value as Record<string, unknown>;
+    return {
+      stdout: String(response.stdout ?? ''),
+      stderr: String(response.stderr ?? ''),
+      exitCode: typeof response.exit_code === 'number' ? response.exit_code : undefined,
+      interrupted: response.interrupted === true,
+    };
+  }
+
+  let rest = text;
+  let exitCode: number | undefined;
+  const exit = /^(?:Error: )?Exit code (\d+)\n?/.exec(rest);
+  if (exit) {
+    exitCode = Number(exit[1]);
+    rest = rest.slice(exit[0].length);
+  }
+
+  const tagged = (tag: string) =>
+    new RegExp(`<${tag}>\\n?([\\s\\S]*?)\\n?</${tag}>`).exec(rest)?.[1];
+  const stdout = tagged('stdout');
+  const stderr = tagged('stderr');
+  if (stdout !== undefined || stderr !== undefined) {
+    return { stdout: stdout ?? '', stderr: stderr ?? '', exitCode };
+  }
+  return { stdout: rest, stderr: '', exitCode };
+}
+
+export const bashRenderer: ToolRenderer = {
+  renderInput(input) {
+    if (typeof input.command !== 'string') return undefined;
+
+    const blocks: Block[] = [
+      {
+        type: 'text',
+        content: [
+          { text: '$ ', tone: 'muted' },
+          { text: input.command, tone: 'accent', bold: true },
+        ],
+        indent: 2,
+      },
+    ];
+
+    const details: string[] = [];
+    if (typeof input.description === 'string' && input.description) {
+      details.push(input.description);
+    }
+    const flags: string[] = [];
+    if (typeof input.timeout === 'number') {
+      flags.push(`timeout ${formatTimeout(input.timeout)}`);
+    }
+    if (input.run_in_background === true) {
+      flags.push('background');
+    }
+    if (flags.length > 0) {
+      details.push(`[${flags.join(', ')}]`);
+    }
+    if (details.length > 0) {
+      blocks.push({ type: 'text', content: { text: details.join(' '), tone: 'muted' }, indent: 2 });
+    }
+
+    return blocks;
+  },
+
+  renderResult({ text, isError, value }, _input, context) {
+    const truncation = resolveTruncation(context.options.truncation);
+    const { stdout, stderr, exitCode, interrupted } = parseBashOutput(text, value);
+    const blocks: Block[] = [];
+
+    if (stdout.trim()) {
+      blocks.push(...outputBlocks(stdout, truncation));
+    }
+    if (stderr.trim()) {
+      blocks.push({ type: 'text', content: { text: 'stderr:', tone: 'muted' }, indent: 2 });
+      blocks.push(...outputBlocks(stderr, truncation, { tone: 'error' }));
+    }
+
+    let status: Inline;
+    if (interrupted) {
+      status = { text: 'interrupted', tone: 'warning' };
+    } else if (exitCode !== undefined && exitCode !== 0) {
+      status = { text: `exit ${exitCode}`, tone: 'error' };
+    } else if (isError) {
+      status = { text: 'failed', tone: 'error' };
+    } else {
+      status = { text: 'exit 0', tone: 'muted' };
+    }
+    blocks.push({ type: 'text', content: status, indent: 2 });
+
+    return blocks;
+  },
+};
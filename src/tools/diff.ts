@@ -0,0 +1,170 @@
+/**
+ * Line-based unified diffs for showing file edits
+ */
+
+type DiffOp = { kind: ' ' | '+' | '-'; text: string; oldLine: number; newLine: number };
+
+/**
+ * A unified diff with its added/removed line counts
+ */
+export interface Diff {
+  text: string;
+  added: number;
+  removed: number;
+}
+
+export interface DiffOptions {
+  /**
+   * Unchanged lines shown around each change (default: 3)
+   */
+  context?: number;
+
+  /**
+   * Whether line numbers are meaningful; without them hunks are separated by `...`
+   * instead of `@@` headers
+   */
+  lineNumbers?: boolean;
+}
+
+/**
+ * Above this many line comparisons, changed regions are shown as a whole
+ * instead of computing a minimal diff
+ */
+const MAX_COMPARISONS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Computes line operations via the longest common subsequence of the changed region
+ */
+function diffOps(before: string[], after: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const middle: Array<DiffOp['kind']> = [];
+
+  if (a.length * b.length > MAX_COMPARISONS) {
+    middle.push(...a.map(() => '-' as const), ...b.map(() => '+' as const));
+  } else {
+    // lengths[i][j] = LCS length of a[i..] and b[j..], stored row-major
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          a[i] === b[j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push(' ');
+        i++;
+        j++;
+      } else if (
+        j < b.length &&
+        (i === a.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])
+      ) {
+        middle.push('+');
+        j++;
+      } else {
+        middle.push('-');
+        i++;
+      }
+    }
+  }
+
+  // Assign texts and line numbers; removals come before additions within a change
+  const ops: DiffOp[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  const push = (kind: DiffOp['kind']) => {
+    const text = kind === '+' ? after[newIndex] : before[oldIndex];
+    ops.push({ kind, text, oldLine: oldIndex + 1, newLine: newIndex + 1 });
+    if (kind !== '+') oldIndex++;
+    if (kind !== '-') newIndex++;
+  };
+
+  for (let k = 0; k < prefix; k++) push(' ');
+  for (let k = 0; k < middle.length; ) {
+    if (middle[k] === ' ') {
+      push(' ');
+      k++;
+      continue;
+    }
+    let end = k;
+    while (end < middle.length && middle[end] !== ' ') end++;
+    const change = middle.slice(k, end);
+    for (const kind of change) if (kind === '-') push('-');
+    for (const kind of change) if (kind === '+') push('+');
+    k = end;
+  }
+  for (let k = 0; k < suffix; k++) push(' ');
+
+  return ops;
+}
+
+/**
+ * Creates a unified diff between two texts
+ */
+export function unifiedDiff(before: string, after: string, options: DiffOptions = {}): Diff {
+  const { context = 3, lineNumbers = true } = options;
+  const ops = diffOps(splitLines(before), splitLines(after));
+
+  // Group changes that are close enough to share context into hunks
+  const hunks: Array<[number, number]> = [];
+  ops.forEach((op, index) => {
+    if (op.kind === ' ') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+
+  const lines: string[] = [];
+  hunks.forEach(([start, end], index) => {
+    const hunk = ops.slice(start, end);
+    if (lineNumbers) {
+      const oldCount = hunk.filter((op) => op.kind !== '+').length;
+      const newCount = hunk.filter((op) => op.kind !== '-').length;
+      // Empty ranges point at the line before them, as in `diff -u`
+      const oldStart = oldCount ? hunk[0].oldLine : hunk[0].oldLine - 1;
+      const newStart = newCount ? hunk[0].newLine : hunk[0].newLine - 1;
+      lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    } else if (index > 0) {
+      lines.push('...');
+    }
+    lines.push(...hunk.map((op) => `${op.kind}${op.text}`));
+  });
+
+  return {
+    text: lines.join('\n'),
+    added: ops.filter((op) => op.kind === '+').length,
+    removed: ops.filter((op) => op.kind === '-').length,
+  };
+}
@@ -0,0 +1,153 @@
+import type { FormatContext } from '../context';
+import type { Block, Inline } from '../document';
+import { resolveTruncation } from '../truncation';
+import { type Diff, unifiedDiff } from './diff';
+import type { ToolRenderer } from './index';
+import { detectLanguage } from './language';
+import { outputBlocks } from './output';
+import { relativePath } from './paths';
+
+/**
+ * A single string replacement, as in the input of Edit and MultiEdit
+ */
+export interface FileEdit {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+export function isFileEdit(value: unknown): value is FileEdit {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as FileEdit).old_string === 'string' &&
+    typeof (value as FileEdit).new_string === 'string'
+  );
+}
+
+/**
+ * Applies an edit the way the Edit tool does; returns undefined when old_string is missing
+ */
+export function applyEdit(content: string, edit: FileEdit): string | undefined {
+  if (!content.includes(edit.old_string)) return undefined;
+  return edit.replace_all
+    ? content.split(edit.old_string).join(edit.new_string)
+    : content.replace(edit.old_string, () => edit.new_string);
+}
+
+/**
+ * Applies edits in order; returns undefined as soon as one does not apply
+ */
+export function applyEdits(content: string, edits: FileEdit[]): string | undefined {
+  let result: string | undefined = content;
+  for (const edit of edits) {
+    result = applyEdit(result, edit);
+    if (result === undefined) return undefined;
+  }
+  return result;
+}
+
+/**
+ * Renders the `path +added -removed` header and the diff itself
+ */
+function diffBlocks(path: string, diff: Diff, context: FormatContext, note?: string): Block[] {
+  const header: Inline[] = [
+    { text: relativePath(path, context.cwd, context.options.paths), bold: true },
+    ' ',
+    { text: `+${diff.added}`, tone: 'success' },
+    ' ',
+    { text: `-${diff.removed}`, tone: 'error' },
+  ];
+  if (note) {
+    header.push({ text: ` (${note})`, tone: 'muted' });
+  }
+
+  const blocks: Block[] = [{ type: 'text', content: header, indent: 2 }];
+  if (diff.text) {
+    blocks.push({ type: 'code', code: diff.text, language: 'diff', indent: 2 });
+  }
+  return blocks;
+}
+
+/**
+ * Diffs edits against the file when its content is known, otherwise each edit on its own
+ */
+function renderEdits(
+  path: string,
+  edits: FileEdit[],
+  context: FormatContext,
+  note?: string
+): Block[] {
+  const before = context.files.get(path);
+  const after = before === undefined ? undefined : applyEdits(before, edits);
+
+  if (before !== undefined && after !== undefined) {
+    return diffBlocks(path, unifiedDiff(before, after), context, note);
+  }
+
+  const diffs = edits.map((edit) =>
+    unifiedDiff(edit.old_string, edit.new_string, { lineNumbers: false })
+  );
+  const combined: Diff = {
+    text: diffs
+      .map((diff) => diff.text)
+      .filter(Boolean)
+      .join('\n...\n'),
+    added: diffs.reduce((sum, diff) => sum + diff.added, 0),
+    removed: diffs.reduce((sum, diff) => sum + diff.removed, 0),
+  };
+  return diffBlocks(path, combined, context, note);
+}
+
+export const editRenderer: ToolRenderer = {
+  renderInput(input, context) {
+    if (typeof input.file_path !== 'string' || !isFileEdit(input)) return undefined;
+    const note = input.replace_all ? 'all occurrences' : undefined;
+    return renderEdits(input.file_path, [input], context, note);
+  },
+};
+
+export const multiEditRenderer: ToolRenderer = {
+  renderInput(input, context) {
+    const { file_path, edits } = input;
+    if (typeof file_path !== 'string' || !Array.isArray(edits) || !edits.every(isFileEdit)) {
+      return undefined;
+    }
+    const note = `${edits.length} ${edits.length === 1 ? 'edit' : 'edits'}`;
+    return renderEdits(file_path, edits, context, note);
+  },
+};
+
+/**
+ * Shows a diff when the file's previous content is known, e.g. from an earlier Read;
+ * otherwise the content, highlighted in the language of the file
+ */
+export const writeRenderer: ToolRenderer = {
+  renderInput(input, context) {
+    const { file_path, content } = input;
+    if (typeof file_path !== 'string' || typeof content !== 'string') return undefined;
+
+    const before = context.files.get(file_path);
+    if (before !== undefined) {
+      return diffBlocks(file_path, unifiedDiff(before, content), context);
+    }
+
+    const lineCount = content ? content.replace(/\n$/, '').split('\n').length : 0;
+    return [
+      {
+        type: 'text',
+        content: [
+          { text: relativePath(file_path, context.cwd, context.options.paths), bold: true },
+          { text: ` (${lineCount} ${lineCount === 1 ? 'line' : 'lines'})`, tone: 'muted' },
+        ],
+        indent: 2,
+      },
+      ...(content
+        ? outputBlocks(content, resolveTruncation(context.options.truncation), {
+            indent: 4,
+            language: detectLanguage(file_path),
+          })
+        : []),
+    ];
+  },
+};
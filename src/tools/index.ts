@@ -0,0 +1,202 @@
+import type { FormatContext, ToolCall } from '../context';
+import type { Block, Inline } from '../document';
+import { truncateToWidth } from '../utils';
+import { bashRenderer } from './bash';
+import { editRenderer, multiEditRenderer, writeRenderer } from './edit';
+import { toolDisplayName } from './mcp';
+import { notebookEditRenderer } from './notebook';
+import { type PathStyle, relativePath } from './paths';
+import { exitPlanModeRenderer } from './plan';
+import { readRenderer } from './read';
+import { globRenderer, grepRenderer } from './search';
+import { taskRenderer } from './task';
+import { todoWriteRenderer } from './todo';
+import { webFetchRenderer, webSearchRenderer } from './web';
+
+export { type McpToolName, parseMcpToolName, toolDisplayName } from './mcp';
+export { homePath, type PathStyle, relativePath } from './paths';
+
+/**
+ * Tool-specific rendering of tool calls
+ */
+export interface ToolRenderer {
+  /**
+   * Blocks shown below the tool name; undefined falls back to listing the input parameters
+   */
+  renderInput?(input: Record<string, unknown>, context: FormatContext): Block[] | undefined;
+
+  /**
+   * Blocks shown below a result of the tool; undefined falls back to the plain result text
+   */
+  renderResult?(
+    output: ToolOutput,
+    input: Record<string, unknown>,
+    context: FormatContext
+  ): Block[] | undefined;
+}
+
+/**
+ * The result of a tool call as passed to tool renderers
+ */
+export interface ToolOutput {
+  /**
+   * Text content of the result
+   */
+  text: string;
+  isError: boolean;
+  /**
+   * Id of the tool call, when known
+   */
+  toolUseId?: string;
+  /**
+   * Structured response when available, e.g. the tool_response of PostToolUse hooks
+   */
+  value?: unknown;
+}
+
+const toolRenderers: Record<string, ToolRenderer> = {
+  Agent: taskRenderer,
+  Bash: bashRenderer,
+  Edit: editRenderer,
+  ExitPlanMode: exitPlanModeRenderer,
+  Glob: globRenderer,
+  Grep: grepRenderer,
+  MultiEdit: multiEditRenderer,
+  NotebookEdit: notebookEditRenderer,
+  Read: readRenderer,
+  Task: taskRenderer,
+  TodoWrite: todoWriteRenderer,
+  WebFetch: webFetchRenderer,
+  WebSearch: webSearchRenderer,
+  Write: writeRenderer,
+  // Server tools run by the API
+  web_fetch: webFetchRenderer,
+  web_search: webSearchRenderer,
+};
+
+/**
+ * A tool name, or a pattern matching tool names such as `/^mcp__github__/`
+ */
+export type ToolNamePattern = string | RegExp;
+
+type RegisteredRenderer = { pattern: ToolNamePattern; renderer: ToolRenderer };
+
+/**
+ * Registered renderers, most recent first. The list lives on globalThis so the bundled
+ * entry points (index, hooks, cli, in CommonJS and ESM) share a single registry.
+ */
+const REGISTRY_KEY = Symbol.for('claude-pretty-printer.toolRenderers');
+const registry = globalThis as typeof globalThis & {
+  [REGISTRY_KEY]?: RegisteredRenderer[];
+};
+registry[REGISTRY_KEY] ??= [];
+const customRenderers: RegisteredRenderer[] = registry[REGISTRY_KEY];
+
+function matchesToolName(pattern: ToolNamePattern, name: string): boolean {
+  if (typeof pattern === 'string') return pattern === name;
+  // Global and sticky patterns keep state between tests
+  pattern.lastIndex = 0;
+  return pattern.test(name);
+}
+
+/**
+ * Registers a renderer for tools matching a name or pattern. Later registrations take
+ * precedence, including over the built-in renderers. Returns a function that removes it.
+ */
+export function registerToolRenderer(pattern: ToolNamePattern, renderer: ToolRenderer): () => void {
+  const entry = { pattern, renderer };
+  customRenderers.unshift(entry);
+  return () => {
+    const index = customRenderers.indexOf(entry);
+    if (index !== -1) customRenderers.splice(index, 1);
+  };
+}
+
+/**
+ * Returns the renderer for a tool, if it has one
+ */
+export function getToolRenderer(name: string): ToolRenderer | undefined {
+  const custom = customRenderers.find((entry) => matchesToolName(entry.pattern, name));
+  if (custom) return custom.renderer;
+  return Object.hasOwn(toolRenderers, name) ? toolRenderers[name] : undefined;
+}
+
+/**
+ * Input keys that identify what a tool call acts on, in order of preference
+ */
+const TARGET_KEYS = [
+  'file_path',
+  'notebook_path',
+  'path',
+  'pattern',
+  'command',
+  'url',
+  'query',
+  'description',
+];
+
+/**
+ * Returns a short description of what a tool call acts on, e.g. `package.json` for Read
+ */
+export function describeToolTarget(
+  input: Record<string, unknown>,
+  cwd?: string,
+  paths?: PathStyle
+): string {
+  for (const key of TARGET_KEYS) {
+    const value = input[key];
+    if (typeof value !== 'string' || !value) continue;
+
+    if (key.endsWith('path')) {
+      return relativePath(value, cwd, paths);
+    }
+
+    // Keep multi-line values such as scripts to their first line
+    const firstLine = value.split('\n')[0];
+    return truncateToWidth(firstLine, 60);
+  }
+  return '';
+}
+
+/**
+ * Builds the status line of a tool result from its originating call,
+ * e.g. `Read package.json (12 lines)`
+ */
+export function formatToolResultTitle(
+  call: ToolCall,
+  text: string,
+  isError: boolean,
+  cwd?: string,
+  paths?: PathStyle
+): Inline[] {
+  const title: Inline[] = toolDisplayName(call.name);
+
+  const target = describeToolTarget(call.input, cwd, paths);
+  if (target) {
+    title.push(` ${target}`);
+  }
+
+  if (isError) {
+    title.push({ text: ' (failed)', tone: 'error' });
+  } else {
+    const trimmed = text.replace(/\n+$/, '');
+    const lines = trimmed ? trimmed.split('\n').length : 0;
+    if (lines > 0) {
+      title.push({ text: ` (${lines} ${lines === 1 ? 'line' : 'lines'})`, tone: 'muted' });
+    }
+  }
+
+  return title;
+}
+
+/**
+ * Returns the text of tool_result content, which is a string or a list of content blocks
+ */
+export function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter((block) => block?.type === 'text')
+    .map((block) => block.text)
+    .join('\n');
+}
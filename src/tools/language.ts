@@ -0,0 +1,61 @@
+import { basename, extname } from 'node:path';
+
+/**
+ * Languages by file extension, named as in Markdown code fences
+ */
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  '.bash': 'bash',
+  '.c': 'c',
+  '.cc': 'cpp',
+  '.cjs': 'javascript',
+  '.cpp': 'cpp',
+  '.cs': 'csharp',
+  '.css': 'css',
+  '.go': 'go',
+  '.h': 'c',
+  '.hpp': 'cpp',
+  '.html': 'html',
+  '.java': 'java',
+  '.js': 'javascript',
+  '.json': 'json',
+  '.jsonc': 'json',
+  '.jsx': 'jsx',
+  '.kt': 'kotlin',
+  '.md': 'markdown',
+  '.mjs': 'javascript',
+  '.php': 'php',
+  '.py': 'python',
+  '.rb': 'ruby',
+  '.rs': 'rust',
+  '.scss': 'scss',
+  '.sh': 'bash',
+  '.sql': 'sql',
+  '.swift': 'swift',
+  '.toml': 'toml',
+  '.ts': 'typescript',
+  '.tsx': 'tsx',
+  '.xml': 'xml',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.zsh': 'bash',
+};
+
+/**
+ * Languages of files recognized by name rather than extension
+ */
+const FILENAME_LANGUAGES: Record<string, string> = {
+  Dockerfile: 'dockerfile',
+  Makefile: 'makefile',
+  '.bashrc': 'bash',
+  '.zshrc': 'bash',
+};
+
+/**
+ * Guesses the language of a file from its name, e.g. `typescript` for `index.ts`
+ */
+export function detectLanguage(path: string): string | undefined {
+  const name = basename(path);
+  if (Object.hasOwn(FILENAME_LANGUAGES, name)) return FILENAME_LANGUAGES[name];
+  const extension = extname(name).toLowerCase();
+  return Object.hasOwn(EXTENSION_LANGUAGES, extension) ? EXTENSION_LANGUAGES[extension] : undefined;
+}
@@ -0,0 +1,50 @@
+import type { Inline, Span, Tone } from '../document';
+
+/**
+ * Server and tool of an MCP tool name such as `mcp__github__create_issue`
+ */
+export interface McpToolName {
+  server: string;
+  tool: string;
+}
+
+/**
+ * Splits an MCP tool name into its server and tool; returns undefined for other tools
+ */
+export function parseMcpToolName(name: string): McpToolName | undefined {
+  const match = /^mcp__(.+?)__(.+)$/.exec(name);
+  return match ? { server: match[1], tool: match[2] } : undefined;
+}
+
+const STATUS_TONES: Record<string, Tone> = {
+  connected: 'success',
+  failed: 'error',
+  'needs-auth': 'warning',
+};
+
+/**
+ * Display name of a tool: MCP tools show as `server › tool`, followed by the server's
+ * connection status when it is known
+ */
+export function toolDisplayName(
+  name: string,
+  servers?: Map<string, string>,
+  style: Omit<Span, 'text'> = { bold: true }
+): Inline[] {
+  const mcp = parseMcpToolName(name);
+  if (!mcp) return [{ ...style, text: name }];
+
+  const display: Inline[] = [
+    { text: mcp.server, tone: 'muted' },
+    ' ',
+    { icon: 'mcpSeparator', tone: 'muted' },
+    ' ',
+    { ...style, text: mcp.tool },
+  ];
+  const status = servers?.get(mcp.server);
+  if (status) {
+    const tone = Object.hasOwn(STATUS_TONES, status) ? STATUS_TONES[status] : 'muted';
+    display.push({ text: ` (${status})`, tone });
+  }
+  return display;
+}
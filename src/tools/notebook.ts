@@ -0,0 +1,61 @@
+import type { Block, Inline, Tone } from '../document';
+import type { ToolRenderer } from './index';
+import { relativePath } from './paths';
+
+const EDIT_MODES: Record<string, { label: string; tone: Tone }> = {
+  insert: { label: 'Insert', tone: 'success' },
+  replace: { label: 'Replace', tone: 'warning' },
+  delete: { label: 'Delete', tone: 'error' },
+};
+
+/**
+ * Shows NotebookEdit calls as a cell card: the edit mode, cell type and id, and the new
+ * source as code in the cell's language
+ */
+export const notebookEditRenderer: ToolRenderer = {
+  renderInput(input, context) {
+    const {
+      notebook_path: path,
+      cell_id: cellId,
+      cell_number: cellNumber,
+      cell_type: cellType,
+      new_source: source,
+    } = input;
+    if (typeof path !== 'string') return undefined;
+
+    const modeName = String(input.edit_mode ?? 'replace');
+    const mode = Object.hasOwn(EDIT_MODES, modeName) ? EDIT_MODES[modeName] : EDIT_MODES.replace;
+    const heading: Inline[] = [
+      { text: mode.label, tone: mode.tone, bold: true },
+      ` ${typeof cellType === 'string' ? cellType : 'code'} cell`,
+    ];
+    const cell =
+      typeof cellId === 'string' && cellId
+        ? cellId
+        : typeof cellNumber === 'number'
+          ? `#${cellNumber}`
+          : undefined;
+    // Inserted cells go after the given cell, or first without one
+    if (mode === EDIT_MODES.insert) {
+      heading.push({ text: cell ? ` after ${cell}` : ' at start', tone: 'muted' });
+    } else if (cell) {
+      heading.push({ text: ` ${cell}`, tone: 'muted' });
+    }
+    heading.push(' in ', {
+      text: relativePath(path, context.cwd, context.options.paths),
+      bold: true,
+    });
+
+    const blocks: Block[] = [{ type: 'text', content: heading, indent: 2 }];
+    if (mode !== EDIT_MODES.delete && typeof source === 'string' && source) {
+      blocks.push({
+        type: 'code',
+        code: source.replace(/\n+$/, ''),
+        // The kernel language is not part of the input; most notebooks are Python
+        language: cellType === 'markdown' ? 'markdown' : 'python',
+        indent: 4,
+      });
+    }
+    return blocks;
+  },
+};
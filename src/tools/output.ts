@@ -0,0 +1,51 @@
+import type { Block, Tone } from '../document';
+import { foldLines, moreMarker, type Truncation } from '../truncation';
+
+/**
+ * Renders command or file output as code, folding long output to its first and last lines
+ */
+export function outputBlocks(
+  output: string,
+  truncation: Truncation,
+  options: { tone?: Tone; indent?: number; language?: string } = {}
+): Block[] {
+  const { tone, indent = 2, language } = options;
+  const code = (lines: string[]): Block => ({
+    type: 'code',
+    code: lines.join('\n'),
+    language,
+    tone,
+    indent,
+  });
+
+  const { head, hidden, tail } = foldLines(output.replace(/\n+$/, '').split('\n'), truncation);
+  if (hidden === 0) {
+    return [code(head)];
+  }
+  const blocks: Block[] = [code(head), { type: 'text', content: moreMarker(hidden), indent }];
+  return tail.length > 0 ? [...blocks, code(tail)] : blocks;
+}
+
+/**
+ * Renders prose such as prompts and reports as text, folding long text to its first and
+ * last lines
+ */
+export function textBlocks(
+  text: string,
+  truncation: Truncation,
+  options: { tone?: Tone; indent?: number } = {}
+): Block[] {
+  const { tone, indent = 2 } = options;
+  const paragraph = (lines: string[]): Block => ({
+    type: 'text',
+    content: tone ? { text: lines.join('\n'), tone } : lines.join('\n'),
+    indent,
+  });
+
+  const { head, hidden, tail } = foldLines(text.split('\n'), truncation);
+  if (hidden === 0) {
+    return [paragraph(head)];
+  }
+  const blocks: Block[] = [paragraph(head), { type: 'text', content: moreMarker(hidden), indent }];
+  return tail.length > 0 ? [...blocks, paragraph(tail)] : blocks;
+}
@@ -0,0 +1,33 @@
+import { homedir } from 'node:os';
+import { isAbsolute, relative, sep } from 'node:path';
+
+/**
+ * How file paths are shown: 'relative' to the session cwd when inside it, 'short' like
+ * relative with the home directory as `~` otherwise, or 'absolute' as given
+ */
+export type PathStyle = 'relative' | 'short' | 'absolute';
+
+/**
+ * Shortens a path to be relative to the session cwd when it lies inside it; with the
+ * 'short' style, other paths in the home directory start with `~`. Paths are kept as given
+ * by default.
+ */
+export function relativePath(path: string, cwd?: string, style: PathStyle = 'absolute'): string {
+  if (style === 'absolute' || !isAbsolute(path)) return path;
+  if (cwd) {
+    const rel = relative(cwd, path);
+    if (!rel) return '.';
+    if (!rel.startsWith('..') && !isAbsolute(rel)) return rel;
+  }
+  return style === 'short' ? homePath(path) : path;
+}
+
+/**
+ * Replaces the home directory at the start of an absolute path with `~`
+ */
+export function homePath(path: string): string {
+  const home = homedir();
+  if (!home || home === sep || !isAbsolute(path)) return path;
+  if (path === home) return '~';
+  return path.startsWith(`${home}${sep}`) ? `~${path.slice(home.length)}` : path;
+}
@@ -0,0 +1,41 @@
+import type { Block, Inline } from '../document';
+import { markdownBlocks } from '../formatters/markdown';
+import type { ToolRenderer } from './index';
+
+/**
+ * Shows the plan of ExitPlanMode calls as rendered Markdown, and whether the user
+ * approved it
+ */
+export const exitPlanModeRenderer: ToolRenderer = {
+  renderInput(input) {
+    const { plan } = input;
+    if (typeof plan !== 'string') return undefined;
+    return [
+      {
+        type: 'section',
+        title: { text: 'PLAN', tone: 'highlight', bold: true },
+        children: markdownBlocks(plan),
+        indent: 2,
+      },
+    ];
+  },
+
+  renderResult({ text, isError }) {
+    // Rejections come back as errors, e.g. "The user doesn't want to proceed with this tool use"
+    const rejected = isError || /doesn't want to proceed|rejected/i.test(text);
+    const approved = !rejected && /approved/i.test(text);
+    if (!rejected && !approved) return undefined;
+
+    const decision: Inline = rejected
+      ? { text: 'Plan rejected', tone: 'error', bold: true }
+      : { text: 'Plan approved', tone: 'success', bold: true };
+    const blocks: Block[] = [{ type: 'text', content: decision, indent: 2 }];
+
+    // Feedback given along with a rejection follows "the user said:"
+    const feedback = /the user said:\s*([\s\S]+)$/i.exec(text)?.[1]?.trim();
+    if (rejected && feedback) {
+      blocks.push({ type: 'text', content: { text: feedback, italic: true }, indent: 4 });
+    }
+    return blocks;
+  },
+};
@@ -0,0 +1,83 @@
+import type { Inline } from '../document';
+import { resolveTruncation } from '../truncation';
+import type { ToolRenderer } from './index';
+import { detectLanguage } from './language';
+import { outputBlocks } from './output';
+import { relativePath } from './paths';
+
+/**
+ * Line prefix the Read tool adds to file content: right-aligned number, then → or a tab
+ */
+const NUMBERED_LINE = /^\s*(\d+)(?:→|\t)(.*)$/;
+
+/**
+ * Reconstructs file content from a Read tool result.
+ * Returns undefined when the output does not start at line 1 in numbered form.
+ */
+export function parseReadOutput(output: string): string | undefined {
+  const lines: string[] = [];
+  for (const line of output.split('\n')) {
+    const match = NUMBERED_LINE.exec(line);
+    // Anything after the numbered lines (e.g. reminders) is not file content
+    if (!match || Number(match[1]) !== lines.length + 1) break;
+    lines.push(match[2]);
+  }
+  return lines.length > 0 ? `${lines.join('\n')}\n` : undefined;
+}
+
+/**
+ * Describes the part of a file a Read call covers, e.g. `lines 10–59`
+ */
+function describeRange(offset: unknown, limit: unknown): Inline[] | undefined {
+  const start = typeof offset === 'number' && offset > 0 ? offset : undefined;
+  const count = typeof limit === 'number' && limit > 0 ? limit : undefined;
+  if (start !== undefined && count !== undefined) {
+    return [`lines ${start}`, { icon: 'range' }, `${start + count - 1}`];
+  }
+  if (start !== undefined) return [`from line ${start}`];
+  if (count !== undefined) return [`first ${count} lines`];
+  return undefined;
+}
+
+/**
+ * Shows the path, range and language of Read calls, and their output folded to its
+ * head and tail
+ */
+export const readRenderer: ToolRenderer = {
+  renderInput(input, context) {
+    const { file_path: path, offset, limit, pages } = input;
+    if (typeof path !== 'string') return undefined;
+
+    const language = detectLanguage(path);
+    const details = [
+      describeRange(offset, limit),
+      typeof pages === 'string' && pages ? [`pages ${pages}`] : undefined,
+      language ? [language] : undefined,
+    ].filter((detail) => detail !== undefined);
+
+    const heading: Inline[] = [
+      { text: relativePath(path, context.cwd, context.options.paths), bold: true },
+    ];
+    if (details.length > 0) {
+      const muted = (inline: Inline): Inline =>
+        typeof inline === 'string' ? { text: inline, tone: 'muted' } : { ...inline, tone: 'muted' };
+      const inlines = details.flatMap((detail, i) => (i > 0 ? [', ', ...detail] : detail));
+      heading.push(...[' (', ...inlines, ')'].map(muted));
+    }
+    return [{ type: 'text', content: heading, indent: 2 }];
+  },
+
+  renderResult({ text, isError }, _input, context) {
+    if (isError) return undefined;
+
+    // Keep the numbered file content, dropping notes the tool appends after it
+    const lines: string[] = [];
+    for (const line of text.split('\n')) {
+      if (!NUMBERED_LINE.test(line)) break;
+      lines.push(line);
+    }
+    if (lines.length === 0) return undefined;
+
+    return outputBlocks(lines.join('\n'), resolveTruncation(context.options.truncation));
+  },
+};
@@ -0,0 +1,249 @@
+import type { FormatContext } from '../context';
+import type { Block, Inline } from '../document';
+import { moreMarker, resolveTruncation } from '../truncation';
+import type { ToolRenderer } from './index';
+import { relativePath } from './paths';
+
+interface FileMatches {
+  path: string;
+  /**
+   * Number of matches in the file, when the output tells
+   */
+  count?: number;
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : nouns}`;
+}
+
+/**
+ * Shows a summary such as `23 matches in 5 files`, expandable into the list of files
+ */
+function summaryBlocks(
+  files: FileMatches[],
+  notes: string[],
+  context: FormatContext,
+  matches?: number
+): Block[] {
+  const summary =
+    files.length === 0
+      ? 'No matches'
+      : matches === undefined
+        ? plural(files.length, 'file')
+        : `${plural(matches, 'match', 'matches')} in ${plural(files.length, 'file')}`;
+
+  if (files.length === 0) {
+    return [
+      { type: 'text', content: { text: summary, tone: 'muted' }, indent: 2 },
+      ...noteBlocks(notes),
+    ];
+  }
+
+  // File lists longer than the line limit show only their first entries
+  const { maxLines } = resolveTruncation(context.options.truncation);
+  const items = files.slice(0, maxLines).map((file) => {
+    const content: Inline[] = [relativePath(file.path, context.cwd, context.options.paths)];
+    if (file.count !== undefined) {
+      content.push({ text: ` (${file.count})`, tone: 'muted' });
+    }
+    return { content };
+  });
+
+  const blocks: Block[] = [
+    { type: 'list', summary: { text: summary, tone: 'muted' }, items, indent: 2 },
+  ];
+  if (files.length > items.length) {
+    blocks.push({
+      type: 'text',
+      content: moreMarker(files.length - items.length, 'file'),
+      indent: 4,
+    });
+  }
+  return [...blocks, ...noteBlocks(notes)];
+}
+
+function noteBlocks(notes: string[]): Block[] {
+  return notes.map((note) => ({ type: 'text', content: { text: note, tone: 'muted' }, indent: 2 }));
+}
+
+/**
+ * Splits tool output into result lines and the notes the tool adds around them,
+ * e.g. `Found 5 files` or `(Results are truncated...)`
+ */
+function splitOutput(text: string): { lines: string[]; notes: string[] } {
+  const lines: string[] = [];
+  const notes: string[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    if (/^(Found \d|No (files|matches) found)/.test(line)) continue;
+    if (/^[([].*[)\]]$/.test(line)) {
+      notes.push(line);
+    } else {
+      lines.push(line);
+    }
+  }
+  return { lines, notes };
+}
+
+/**
+ * Groups Grep content output by file; lines without a `path:` prefix, or with a line
+ * number only, come from a single-file search of `path`
+ */
+function groupMatches(lines: string[], lineNumbers: boolean, path?: string): FileMatches[] {
+  // Paths are assumed not to contain whitespace, so code such as `x: number` is no prefix
+  const prefix = lineNumbers ? /^(\S+?):\d+:/ : /^(\S+?):/;
+  const files = new Map<string, FileMatches>();
+  let unprefixed = 0;
+
+  for (const line of lines) {
+    if (line === '--') continue;
+    const match = prefix.exec(line);
+    // An all-digit prefix is the line number of a single-file search, e.g. `12:const x`
+    if (match && !/^\d+$/.test(match[1])) {
+      const file = files.get(match[1]) ?? { path: match[1], count: 0 };
+      file.count = (file.count ?? 0) + 1;
+      files.set(match[1], file);
+    } else if (!lineNumbers || !/^(?:\S+?-)?\d+-/.test(line)) {
+      // Context lines (`path-12-...`, or `12-...` in a single file) are not matches
+      unprefixed++;
+    }
+  }
+
+  if (files.size === 0 && unprefixed > 0) {
+    return [{ path: path ?? '.', count: unprefixed }];
+  }
+  return [...files.values()];
+}
+
+/**
+ * File names of the structured `{ filenames, numFiles }` responses of Glob and Grep, as
+ * PostToolUse hooks receive them
+ */
+function responseFiles(value: unknown): string[] | undefined {
+  const filenames = value && typeof value === 'object' && 'filenames' in value && value.filenames;
+  return Array.isArray(filenames)
+    ? filenames.filter((name): name is string => typeof name === 'string')
+    : undefined;
+}
+
+/**
+ * Notes that the structured response lists fewer files than it matched
+ */
+function responseNotes(value: unknown, files: string[]): string[] {
+  const total = value && typeof value === 'object' && 'numFiles' in value && value.numFiles;
+  return typeof total === 'number' && total > files.length
+    ? [`(${plural(total - files.length, 'more file')} not listed)`]
+    : [];
+}
+
+/**
+ * Shows the pattern and path of Glob calls, and the matched files as an expandable list
+ */
+export const globRenderer: ToolRenderer = {
+  renderInput(input, context) {
+    const { pattern, path } = input;
+    if (typeof pattern !== 'string') return undefined;
+
+    const heading: Inline[] = [{ text: pattern, bold: true }];
+    if (typeof path === 'string' && path) {
+      heading.push({
+        text: ` in ${relativePath(path, context.cwd, context.options.paths)}`,
+        tone: 'muted',
+      });
+    }
+    return [{ type: 'text', content: heading, indent: 2 }];
+  },
+
+  renderResult({ text, isError, value }, _input, context) {
+    if (isError) return undefined;
+    const filenames = text ? undefined : responseFiles(value);
+    if (filenames) {
+      return summaryBlocks(
+        filenames.map((path) => ({ path })),
+        responseNotes(value, filenames),
+        context
+      );
+    }
+    if (!text) return undefined;
+
+    const { lines, notes } = splitOutput(text);
+    return summaryBlocks(
+      lines.map((path) => ({ path })),
+      notes,
+      context
+    );
+  },
+};
+
+/**
+ * Shows the pattern, path, filters and output mode of Grep calls, and a summary of the
+ * matches per file as an expandable list
+ */
+export const grepRenderer: ToolRenderer = {
+  renderInput(input, context) {
+    const { pattern, path, glob, type, output_mode: mode } = input;
+    if (typeof pattern !== 'string') return undefined;
+
+    const heading: Inline[] = [{ text: pattern, bold: true }];
+    if (typeof path === 'string' && path) {
+      heading.push({
+        text: ` in ${relativePath(path, context.cwd, context.options.paths)}`,
+        tone: 'muted',
+      });
+    }
+
+    const details = [
+      typeof glob === 'string' && glob ? glob : undefined,
+      typeof type === 'string' && type ? `${type} files` : undefined,
+      typeof mode === 'string' ? mode.replace(/_/g, ' ') : undefined,
+      input['-i'] === true ? 'case-insensitive' : undefined,
+      input.multiline === true ? 'multiline' : undefined,
+    ].filter((detail) => detail !== undefined);
+    if (details.length > 0) {
+      heading.push({ text: ` (${details.join(', ')})`, tone: 'muted' });
+    }
+    return [{ type: 'text', content: heading, indent: 2 }];
+  },
+
+  renderResult({ text, isError, value }, input, context) {
+    if (isError) return undefined;
+    // Structured responses carry the output of content and count modes as `content`
+    const content =
+      value && typeof value === 'object' && 'content' in value ? value.content : undefined;
+    const output = text || (typeof content === 'string' ? content : '');
+    const filenames = output ? undefined : responseFiles(value);
+    if (filenames) {
+      return summaryBlocks(
+        filenames.map((path) => ({ path })),
+        responseNotes(value, filenames),
+        context
+      );
+    }
+    if (!output) return undefined;
+
+    const { lines, notes } = splitOutput(output);
+
+    if (input.output_mode === 'count') {
+      const files = lines.flatMap((line): FileMatches[] => {
+        const match = /^(.*):(\d+)$/.exec(line);
+        return match ? [{ path: match[1], count: Number(match[2]) }] : [];
+      });
+      const total = files.reduce((sum, file) => sum + (file.count ?? 0), 0);
+      return summaryBlocks(files, notes, context, total);
+    }
+
+    if (input.output_mode === 'content') {
+      const path = typeof input.path === 'string' ? input.path : undefined;
+      // Claude Code's Grep shows line numbers in content mode unless `-n` is false
+      const files = groupMatches(lines, input['-n'] !== false, path);
+      const total = files.reduce((sum, file) => sum + (file.count ?? 0), 0);
+      return summaryBlocks(files, notes, context, total);
+    }
+
+    return summaryBlocks(
+      lines.map((path) => ({ path })),
+      notes,
+      context
+    );
+  },
+};
@@ -0,0 +1,55 @@
+import type { Block, Inline } from '../document';
+import { resolveTruncation } from '../truncation';
+import type { ToolRenderer } from './index';
+import { textBlocks } from './output';
+
+/**
+ * Shows the subagent type, description and prompt of Task/Agent calls,
+ * and a summary of the subagent's activity with its final report
+ */
+export const taskRenderer: ToolRenderer = {
+  renderInput(input, context) {
+    const { subagent_type: type, description, prompt } = input;
+    if (typeof prompt !== 'string') return undefined;
+
+    const heading: Inline[] = [
+      { text: typeof type === 'string' ? type : 'subagent', tone: 'accent', bold: true },
+    ];
+    if (typeof description === 'string' && description) {
+      heading.push({ text: ': ', tone: 'muted' }, description);
+    }
+
+    return [
+      { type: 'text', content: heading, indent: 2 },
+      ...textBlocks(prompt.trim(), resolveTruncation(context.options.truncation), {
+        tone: 'muted',
+      }),
+    ];
+  },
+
+  renderResult({ text, toolUseId }, input, context) {
+    const subagent = toolUseId ? context.subagents.get(toolUseId) : undefined;
+    if (!subagent) return undefined;
+
+    const type =
+      subagent.type ?? (typeof input.subagent_type === 'string' ? input.subagent_type : 'subagent');
+    const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+    const blocks: Block[] = [
+      {
+        type: 'text',
+        content: [
+          { text: type, tone: 'accent', bold: true },
+          {
+            text: ` finished · ${plural(subagent.toolUses, 'tool use')} · ${plural(subagent.messages, 'message')}`,
+            tone: 'muted',
+          },
+        ],
+        indent: 2,
+      },
+    ];
+    if (text.trim()) {
+      blocks.push(...textBlocks(text.trim(), resolveTruncation(context.options.truncation)));
+    }
+    return blocks;
+  },
+};
@@ -0,0 +1,104 @@
+import type { Block, Inline, ListItem } from '../document';
+import type { ToolRenderer } from './index';
+
+/**
+ * An item of a TodoWrite list
+ */
+export interface Todo {
+  content: string;
+  status: 'pending' | 'in_progress' | 'completed';
+  activeForm?: string;
+  id?: string;
+}
+
+function isTodo(value: unknown): value is Todo {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Todo).content === 'string' &&
+    ['pending', 'in_progress', 'completed'].includes((value as Todo).status)
+  );
+}
+
+/**
+ * Returns the todo list of TodoWrite input, or undefined when it is malformed
+ */
+export function parseTodos(input: Record<string, unknown>): Todo[] | undefined {
+  const { todos } = input;
+  return Array.isArray(todos) && todos.every(isTodo) ? todos : undefined;
+}
+
+const todoKey = (todo: Todo) => todo.id ?? todo.content;
+
+/**
+ * Summarizes how a todo list changed, e.g. `2 completed, 1 added`
+ */
+export function summarizeTodoChanges(previous: Todo[], current: Todo[]): string {
+  const before = new Map(previous.map((todo) => [todoKey(todo), todo]));
+  const after = new Set(current.map(todoKey));
+  let added = 0;
+  let started = 0;
+  let completed = 0;
+
+  for (const todo of current) {
+    const old = before.get(todoKey(todo));
+    if (!old) {
+      added++;
+    } else if (todo.status !== old.status) {
+      if (todo.status === 'completed') completed++;
+      else if (todo.status === 'in_progress') started++;
+    }
+  }
+  const removed = previous.filter((todo) => !after.has(todoKey(todo))).length;
+
+  return [
+    [completed, 'completed'],
+    [started, 'started'],
+    [added, 'added'],
+    [removed, 'removed'],
+  ]
+    .filter(([count]) => count)
+    .map(([count, label]) => `${count} ${label}`)
+    .join(', ');
+}
+
+function todoItem(todo: Todo): ListItem {
+  const marker: Inline =
+    todo.status === 'completed'
+      ? { icon: 'success', tone: 'success' }
+      : todo.status === 'in_progress'
+        ? { icon: 'inProgress', tone: 'warning' }
+        : { icon: 'pending', tone: 'muted' };
+  const content: Inline =
+    todo.status === 'completed'
+      ? { text: todo.content, tone: 'muted' }
+      : todo.status === 'in_progress'
+        ? { text: todo.content, bold: true }
+        : todo.content;
+  return { marker, content };
+}
+
+/**
+ * Shows TodoWrite input as a checklist; in a session, also how it changed since the last list
+ */
+export const todoWriteRenderer: ToolRenderer = {
+  renderInput(input, context) {
+    const todos = parseTodos(input);
+    if (!todos) return undefined;
+
+    const done = todos.filter((todo) => todo.status === 'completed').length;
+    const status = [`${done}/${todos.length} completed`];
+    if (context.todos) {
+      const changes = summarizeTodoChanges(context.todos, todos);
+      if (changes) status.push(changes);
+    }
+
+    const blocks: Block[] = [
+      { type: 'text', content: { text: status.join(' · '), tone: 'muted' }, indent: 2 },
+    ];
+    if (todos.length > 0) {
+      blocks.push({ type: 'list', items: todos.map(todoItem), indent: 2 });
+    }
+    return blocks;
+  },
+};
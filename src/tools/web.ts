@@ -0,0 +1,193 @@
+import type { Block, Inline, ListItem, Span } from '../document';
+import { resolveTruncation } from '../truncation';
+import type { ToolRenderer } from './index';
+import { textBlocks } from './output';
+
+interface SearchResult {
+  title: string;
+  url: string;
+}
+
+function hostname(url: string): string | undefined {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A link to a web page; only http(s) URLs become hyperlinks
+ */
+function link(text: string, url: string, style: Omit<Span, 'text' | 'href'> = {}): Span {
+  return /^https?:\/\//i.test(url) ? { ...style, text, href: url } : { ...style, text };
+}
+
+function isSearchResult(value: unknown): value is SearchResult {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as SearchResult).title === 'string' &&
+    typeof (value as SearchResult).url === 'string'
+  );
+}
+
+/**
+ * Extracts results from WebSearch output, which lists them as `Links: [{"title", "url"}, ...]`
+ * lines between prose; returns the results and the remaining text
+ */
+function parseSearchOutput(text: string): { results: SearchResult[]; rest: string } {
+  const results: SearchResult[] = [];
+  const rest: string[] = [];
+  for (const line of text.split('\n')) {
+    const match = /^Links:\s*(\[.*\])\s*$/.exec(line);
+    if (match) {
+      try {
+        const links: unknown = JSON.parse(match[1]);
+        if (Array.isArray(links)) {
+          results.push(...links.filter(isSearchResult));
+          continue;
+        }
+      } catch {
+        // Not a links line after all
+      }
+    }
+    rest.push(line);
+  }
+  return {
+    results,
+    rest: rest
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+  };
+}
+
+/**
+ * Extracts results from the shapes a WebSearch result arrives in: server-side content blocks,
+ * the `{ query, results }` response of PostToolUse hooks, whose results are groups of links
+ * and summary text, or the client tool's text output. Returns undefined for other shapes.
+ */
+function parseSearchResponse(
+  text: string,
+  value: unknown
+): { results: SearchResult[]; rest: string } | undefined {
+  if (Array.isArray(value)) {
+    return { results: value.filter(isSearchResult), rest: '' };
+  }
+  if (value && typeof value === 'object') {
+    const groups = (value as { results?: unknown }).results;
+    if (!Array.isArray(groups)) return undefined;
+    const results: SearchResult[] = [];
+    const rest: string[] = [];
+    for (const group of groups) {
+      if (typeof group === 'string') {
+        rest.push(group.trim());
+      } else if (group && typeof group === 'object' && Array.isArray(group.content)) {
+        results.push(...group.content.filter(isSearchResult));
+      }
+    }
+    return { results, rest: rest.filter(Boolean).join('\n\n') };
+  }
+  return parseSearchOutput(text);
+}
+
+function resultList(results: SearchResult[]): Block {
+  const items: ListItem[] = results.map((result) => ({
+    content: [
+      { text: result.title || result.url, bold: true },
+      '\n',
+      link(result.url, result.url, { tone: 'muted' }),
+    ],
+  }));
+  return { type: 'list', items, ordered: true, indent: 2 };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Shows the domain, URL and prompt of WebFetch calls
+ */
+export const webFetchRenderer: ToolRenderer = {
+  renderInput(input) {
+    const { url, prompt } = input;
+    if (typeof url !== 'string') return undefined;
+
+    const domain = hostname(url);
+    const heading: Inline[] = domain
+      ? [{ text: domain, bold: true }, ' ', link(url, url, { tone: 'muted' })]
+      : [link(url, url, { bold: true })];
+    const blocks: Block[] = [{ type: 'text', content: heading, indent: 2 }];
+    if (typeof prompt === 'string' && prompt) {
+      blocks.push({
+        type: 'text',
+        content: { text: prompt, tone: 'muted', italic: true },
+        indent: 2,
+      });
+    }
+    return blocks;
+  },
+};
+
+/**
+ * Shows the query and domain filters of WebSearch calls, and their results as a numbered
+ * list; handles both the client tool's text output and server-side web_search_tool_result content
+ */
+export const webSearchRenderer: ToolRenderer = {
+  renderInput(input) {
+    const { query, allowed_domains: allowed, blocked_domains: blocked } = input;
+    if (typeof query !== 'string') return undefined;
+
+    const blocks: Block[] = [
+      {
+        type: 'text',
+        content: [
+          { text: 'Search: ', tone: 'muted' },
+          { text: query, bold: true },
+        ],
+        indent: 2,
+      },
+    ];
+    if (Array.isArray(allowed) && allowed.length > 0) {
+      blocks.push({ type: 'field', label: 'Only', value: allowed.join(', '), indent: 2 });
+    }
+    if (Array.isArray(blocked) && blocked.length > 0) {
+      blocks.push({ type: 'field', label: 'Excluding', value: blocked.join(', '), indent: 2 });
+    }
+    return blocks;
+  },
+
+  renderResult({ text, value }, _input, context) {
+    // Server-side search results arrive as content blocks, errors as a single object
+    if (value && typeof value === 'object' && !Array.isArray(value) && 'error_code' in value) {
+      return [
+        {
+          type: 'text',
+          content: { text: `Search failed: ${value.error_code}`, tone: 'error' },
+          indent: 2,
+        },
+      ];
+    }
+
+    const parsed = parseSearchResponse(text, value);
+    if (!parsed) return undefined;
+    const { results, rest } = parsed;
+
+    const blocks: Block[] = [
+      {
+        type: 'text',
+        content: { text: plural(results.length, 'result'), tone: 'muted' },
+        indent: 2,
+      },
+    ];
+    if (results.length > 0) {
+      blocks.push(resultList(results));
+    }
+    if (rest) {
+      blocks.push(...textBlocks(rest, resolveTruncation(context.options.truncation)));
+    }
+    return blocks;
+  },
+};
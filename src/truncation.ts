@@ -0,0 +1,121 @@
+import type { Inline } from './document';
+
+/**
+ * Limits for long content such as tool parameters, command output and hook payloads.
+ * Limits may be Infinity to show that kind of content in full.
+ */
+export interface TruncationOptions {
+  /**
+   * Longest value shown in full, in columns: parameter values, compact JSON and each line
+   * of hook prompts and payloads (default: 100 for parameter values, 80 for compact JSON,
+   * 200 for hook prompts and 500 for hook payloads)
+   */
+  maxChars?: number;
+
+  /**
+   * Most lines of output shown before it is folded to its head and tail (default: 20)
+   */
+  maxLines?: number;
+
+  /**
+   * Lines kept from the start of folded output (default: 8)
+   */
+  headLines?: number;
+
+  /**
+   * Lines kept from the end of folded output (default: 8)
+   */
+  tailLines?: number;
+
+  /**
+   * Items shown of array values before the rest are counted (default: 3)
+   */
+  arrayItems?: number;
+}
+
+/**
+ * Truncation limits with defaults applied; the character limit defaults per kind of
+ * content (see charLimit)
+ */
+export type Truncation = Required<Omit<TruncationOptions, 'maxChars'>> &
+  Pick<TruncationOptions, 'maxChars'>;
+
+export const DEFAULT_TRUNCATION: Truncation = {
+  maxLines: 20,
+  headLines: 8,
+  tailLines: 8,
+  arrayItems: 3,
+};
+
+const UNLIMITED_TRUNCATION: Truncation = {
+  maxChars: Number.POSITIVE_INFINITY,
+  maxLines: Number.POSITIVE_INFINITY,
+  headLines: Number.POSITIVE_INFINITY,
+  tailLines: 0,
+  arrayItems: Number.POSITIVE_INFINITY,
+};
+
+/**
+ * Applies the defaults to truncation options; 'unlimited' turns all truncation off
+ */
+export function resolveTruncation(option?: TruncationOptions | 'unlimited'): Truncation {
+  if (option === 'unlimited') return UNLIMITED_TRUNCATION;
+  const truncation = { ...DEFAULT_TRUNCATION };
+  for (const [key, value] of Object.entries(option ?? {})) {
+    if (value !== undefined) truncation[key as keyof Truncation] = value;
+  }
+  return truncation;
+}
+
+/**
+ * Default character limits per kind of content
+ */
+const DEFAULT_CHAR_LIMITS = {
+  value: 100,
+  json: 80,
+  prompt: 200,
+  payload: 500,
+};
+
+/**
+ * Character limit for a kind of content: the maxChars option when given, or the
+ * default for that kind
+ */
+export function charLimit(truncation: Truncation, kind: keyof typeof DEFAULT_CHAR_LIMITS): number {
+  return truncation.maxChars ?? DEFAULT_CHAR_LIMITS[kind];
+}
+
+/**
+ * Lines of folded text: the head and tail shown and the number hidden between them
+ */
+export interface FoldedLines {
+  head: string[];
+  hidden: number;
+  tail: string[];
+}
+
+/**
+ * Folds lines beyond the limit to their head and tail; nothing is hidden when
+ * the lines fit
+ */
+export function foldLines(lines: string[], truncation: Truncation): FoldedLines {
+  const keep = truncation.headLines + truncation.tailLines;
+  if (lines.length <= truncation.maxLines || lines.length <= keep) {
+    return { head: lines, hidden: 0, tail: [] };
+  }
+  return {
+    head: lines.slice(0, truncation.headLines),
+    hidden: lines.length - keep,
+    tail: truncation.tailLines > 0 ? lines.slice(-truncation.tailLines) : [],
+  };
+}
+
+/**
+ * Marker for folded content, e.g. `… 240 more lines`
+ */
+export function moreMarker(count: number, noun = 'line', nouns = `${noun}s`): Inline[] {
+  return [
+    { icon: 'ellipsis', tone: 'muted' },
+    { text: ` ${count} more ${count === 1 ? noun : nouns}`, tone: 'muted' },
+  ];
+}
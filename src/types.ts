@@ -11,17 +11,109 @@ export type BetaToolUseBlock = {
   input: Record<string, unknown>;
 };
 
-export type BetaContentBlock = BetaTextBlock | BetaToolUseBlock;
-
 export type BetaThinkingBlock = {
-  type: 'text';
-  text: string;
+  type: 'thinking';
+  thinking: string;
+  signature: string;
+};
+
+export type BetaRedactedThinkingBlock = {
+  type: 'redacted_thinking';
+  data: string;
 };
 
+export type BetaContentBlock =
+  | BetaTextBlock
+  | BetaToolUseBlock
+  | BetaThinkingBlock
+  | BetaRedactedThinkingBlock
+  | BetaServerToolUseBlock
+  | BetaWebSearchToolResultBlock;
+
 export type BetaMessageContent = BetaContentBlock[];
 
 export type BetaMessageWithThinking = {
   content: BetaMessageContent;
-  thinking?: BetaThinkingBlock[];
+  /**
+   * Non-standard thinking text some producers attach next to the content
+   */
+  thinking?: BetaTextBlock[];
   [key: string]: any;
 };
+
+export type BetaUsage = {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+};
+
+// Replicated stream event types (BetaRawMessageStreamEvent)
+export type BetaRawMessageStartEvent = {
+  type: 'message_start';
+  message: { model?: string; usage?: BetaUsage; [key: string]: any };
+};
+
+export type BetaRawContentBlockStartEvent = {
+  type: 'content_block_start';
+  index: number;
+  content_block: { type: string; [key: string]: any };
+};
+
+export type BetaRawContentBlockDeltaEvent = {
+  type: 'content_block_delta';
+  index: number;
+  delta:
+    | { type: 'text_delta'; text: string }
+    | { type: 'input_json_delta'; partial_json: string }
+    | { type: 'thinking_delta'; thinking: string }
+    | { type: 'signature_delta'; signature: string }
+    | { type: string; [key: string]: any };
+};
+
+export type BetaRawContentBlockStopEvent = {
+  type: 'content_block_stop';
+  index: number;
+};
+
+export type BetaRawMessageDeltaEvent = {
+  type: 'message_delta';
+  delta: { stop_reason?: string | null; stop_sequence?: string | null };
+  usage?: BetaUsage;
+};
+
+export type BetaRawMessageStopEvent = {
+  type: 'message_stop';
+};
+
+export type BetaRawMessageStreamEvent =
+  | BetaRawMessageStartEvent
+  | BetaRawContentBlockStartEvent
+  | BetaRawContentBlockDeltaEvent
+  | BetaRawContentBlockStopEvent
+  | BetaRawMessageDeltaEvent
+  | BetaRawMessageStopEvent;
+
+// Replicated server tool types (web search runs on the API, not as a client tool)
+export type BetaServerToolUseBlock = {
+  type: 'server_tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+};
+
+export type BetaWebSearchResultBlock = {
+  type: 'web_search_result';
+  title: string;
+  url: string;
+  page_age?: string | null;
+  encrypted_content?: string;
+};
+
+export type BetaWebSearchToolResultBlock = {
+  type: 'web_search_tool_result';
+  tool_use_id: string;
+  content:
+    | BetaWebSearchResultBlock[]
+    | { type: 'web_search_tool_result_error'; error_code: string };
+};
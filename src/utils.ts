@@ -1,4 +1,6 @@
 import pc from 'picocolors';
+import { type BorderChars, unicodeBorder } from './themes';
+import { charLimit, DEFAULT_TRUNCATION, type Truncation } from './truncation';
 
 /**
  * Get terminal width, defaulting to 80 if not available
@@ -7,61 +9,316 @@ export function getTerminalWidth(): number {
   return process.stdout.columns || 80;
 }
 
+/**
+ * Whether the terminal is likely to support OSC 8 hyperlinks.
+ * FORCE_HYPERLINK=1 or =0 overrides the detection.
+ */
+export function supportsHyperlinks(): boolean {
+  const force = process.env.FORCE_HYPERLINK;
+  if (force !== undefined) return force !== '0' && force !== 'false';
+  if (!process.stdout.isTTY || process.env.CI || process.env.TERM === 'dumb') return false;
+  return pc.isColorSupported;
+}
+
+/**
+ * Escape sequences for colors (CSI) and hyperlinks (OSC), which take up no columns
+ */
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matches escape sequences
+const ANSI_PATTERN = /\u001b\[[0-?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)/g;
+
+/**
+ * Characters East Asian terminals show two columns wide (CJK, Hangul, fullwidth forms)
+ */
+const WIDE_RANGES: Array<[number, number]> = [
+  [0x1100, 0x115f],
+  [0x2e80, 0x303e],
+  [0x3041, 0x33ff],
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf],
+  [0xac00, 0xd7a3],
+  [0xf900, 0xfaff],
+  [0xfe30, 0xfe4f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+  [0x20000, 0x3fffd],
+];
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Returns the number of columns a user-perceived character takes up in a terminal
+ */
+function graphemeWidth(grapheme: string): number {
+  const codePoint = grapheme.codePointAt(0) ?? 0;
+  // Control characters, combining marks and zero-width spaces and joiners
+  if (codePoint < 0x20 || (codePoint >= 0x7f && codePoint < 0xa0)) return 0;
+  if (/^[\p{Mn}\p{Me}\u200b-\u200f\u2060\ufeff]/u.test(grapheme)) return 0;
+  // Emoji, including text symbols turned into emoji by a variation selector (`▶️`)
+  if (/\p{Emoji_Presentation}/u.test(grapheme) || grapheme.includes('\ufe0f')) return 2;
+  return WIDE_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 2 : 1;
+}
+
+/**
+ * Removes color and hyperlink escape sequences
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Returns the number of terminal columns text takes up, ignoring escape sequences and
+ * counting emoji and CJK characters as two columns
+ */
+export function stringWidth(text: string): number {
+  let width = 0;
+  for (const { segment } of graphemes.segment(stripAnsi(text))) {
+    width += graphemeWidth(segment);
+  }
+  return width;
+}
+
+/**
+ * Returns the longest start of text that fits in the given number of columns, never
+ * splitting a character
+ */
+export function sliceToWidth(text: string, width: number): string {
+  let result = '';
+  let used = 0;
+  for (const { segment } of graphemes.segment(text)) {
+    used += graphemeWidth(segment);
+    if (used > width) break;
+    result += segment;
+  }
+  return result;
+}
+
+/**
+ * Shortens text to the given number of columns, ending it with the ellipsis when cut
+ */
+export function truncateToWidth(text: string, width: number, ellipsis = '...'): string {
+  if (stringWidth(text) <= width) return text;
+  return `${sliceToWidth(text, Math.max(0, width - stringWidth(ellipsis)))}${ellipsis}`;
+}
+
+/**
+ * Columns between tab stops
+ */
+const TAB_WIDTH = 8;
+
+/**
+ * Replaces tabs with spaces up to the next tab stop, so the line can be measured and
+ * padded; escape sequences take up no columns
+ */
+function expandTabs(line: string): string {
+  if (!line.includes('\t')) return line;
+  let column = 0;
+  return line
+    .split(new RegExp(`(${ANSI_PATTERN.source})`))
+    .map((token, i) => {
+      if (i % 2 === 1) return token;
+      let expanded = '';
+      for (const { segment } of graphemes.segment(token)) {
+        if (segment === '\t') {
+          const spaces = TAB_WIDTH - (column % TAB_WIDTH);
+          expanded += ' '.repeat(spaces);
+          column += spaces;
+        } else {
+          expanded += segment;
+          column += graphemeWidth(segment);
+        }
+      }
+      return expanded;
+    })
+    .join('');
+}
+
+/**
+ * Indentation of the continuation lines of a wrapped line: below the value of
+ * `  key: value` lines, otherwise the line's own indentation
+ */
+function hangingIndent(line: string, width: number): number {
+  const text = stripAnsi(line);
+  const field = /^ *[^\s:][^:]{0,40}?: /.exec(text);
+  const indent = field ? stringWidth(field[0]) : (/^ */.exec(text)?.[0].length ?? 0);
+  // Deep indentation would leave too little room for the text
+  return indent <= width / 2 ? indent : 0;
+}
+
+/**
+ * Breaks a line, which may contain escape sequences, into lines of at most `width`
+ * columns at spaces, splitting words longer than a line. Tabs are expanded to spaces.
+ * Continuation lines keep the line's indentation and reopen the styles active where the
+ * line was broken.
+ */
+export function wrapLine(text: string, width: number): string[] {
+  const line = expandTabs(text);
+  if (stringWidth(line) <= width) return [line];
+
+  const indent = hangingIndent(line, width);
+  const pad = ' '.repeat(indent);
+  const lines: string[] = [];
+  let current = '';
+  let column = 0;
+  // Styles opened since the last reset, reopened on each continuation line
+  let styles: string[] = [];
+  let lastSpace = -1;
+
+  const breakAt = (index: number) => {
+    const rest = current.slice(index).replace(/^ +/, '');
+    const head = current.slice(0, index).trimEnd();
+    lines.push(styles.length > 0 ? `${head}\u001b[0m` : head);
+    current = `${pad}${styles.join('')}${rest}`;
+    column = indent + stringWidth(rest);
+    lastSpace = -1;
+  };
+
+  const tokens = line.split(new RegExp(`(${ANSI_PATTERN.source})`));
+  tokens.forEach((token, i) => {
+    if (i % 2 === 1) {
+      // An escape sequence
+      if (token.startsWith('\u001b[')) {
+        styles = token === '\u001b[0m' || token === '\u001b[m' ? [] : [...styles, token];
+      }
+      current += token;
+      return;
+    }
+    for (const { segment } of graphemes.segment(token)) {
+      const segmentWidth = graphemeWidth(segment);
+      if (column + segmentWidth > width && column > indent) {
+        if (segment === ' ') {
+          breakAt(current.length);
+          continue;
+        }
+        breakAt(lastSpace > 0 ? lastSpace : current.length);
+      }
+      // Spaces of the indentation are no place to break
+      if (segment === ' ' && column > indent) lastSpace = current.length;
+      current += segment;
+      column += segmentWidth;
+    }
+  });
+  lines.push(current);
+  return lines;
+}
+
 /**
  * Creates a horizontal line of the specified character
  */
 export function createLine(char: string, width?: number): string {
   const termWidth = width ?? getTerminalWidth();
-  return char.repeat(termWidth);
+  return char.repeat(Math.floor(termWidth / Math.max(1, stringWidth(char))));
+}
+
+/**
+ * How createBox frames content
+ */
+export interface BoxFrame {
+  /**
+   * Border characters (default: single lines)
+   */
+  border?: BorderChars;
+
+  /**
+   * Whether to draw side walls with the header in the top border, instead of rules above
+   * and below (default: false)
+   */
+  walls?: boolean;
+
+  /**
+   * Columns between the walls and the content (default: 1)
+   */
+  padding?: number;
+
+  /**
+   * Styles the border (default: dim)
+   */
+  paint?: (text: string) => string;
+
+  /**
+   * Width of the box in columns (default: the terminal width)
+   */
+  width?: number;
 }
 
 /**
- * Wraps content in a box with header
+ * Wraps content in a box with header, wrapping lines wider than the box
  */
-export function createBox(header: string, content: string): string {
-  const termWidth = getTerminalWidth();
-  const topLine = createLine('─', termWidth);
-  const bottomLine = createLine('─', termWidth);
+export function createBox(header: string, content: string, frame: BoxFrame = {}): string {
+  const {
+    border = unicodeBorder,
+    walls = false,
+    padding = 1,
+    paint = pc.dim,
+    width = getTerminalWidth(),
+  } = frame;
+
+  if (!walls) {
+    const line = paint(createLine(border.horizontal, width));
+    const lines = content.split('\n').flatMap((text) => wrapLine(text, width));
+    return `${line}\n${header}\n${lines.join('\n')}\n${line}`;
+  }
 
-  return `${pc.dim(topLine)}\n${header}\n${content}\n${pc.dim(bottomLine)}`;
+  const inner = Math.max(1, width - 2 - 2 * padding);
+  const pad = ' '.repeat(padding);
+  const rule = (columns: number) => createLine(border.horizontal, Math.max(0, columns));
+  const lines = content.split('\n').flatMap((text) => wrapLine(text, inner));
+
+  // Headers too wide for the top border become the first line of the box
+  const headerWidth = stringWidth(header);
+  let top: string;
+  if (headerWidth + 5 <= width) {
+    top = `${paint(`${border.topLeft}${border.horizontal}`)} ${header} ${paint(`${rule(width - headerWidth - 5)}${border.topRight}`)}`;
+  } else {
+    top = paint(`${border.topLeft}${rule(width - 2)}${border.topRight}`);
+    lines.unshift(...wrapLine(header, inner));
+  }
+
+  const wall = paint(border.vertical);
+  const rows = lines.map(
+    (line) =>
+      `${wall}${pad}${line}${' '.repeat(Math.max(0, inner - stringWidth(line)))}${pad}${wall}`
+  );
+  const bottom = paint(`${border.bottomLeft}${rule(width - 2)}${border.bottomRight}`);
+  return [top, ...rows, bottom].join('\n');
 }
 
 /**
  * Formats a tool parameter value in a compact, readable way
  */
-export function formatToolParamValue(value: unknown): string {
+export function formatToolParamValue(
+  value: unknown,
+  truncation: Truncation = DEFAULT_TRUNCATION
+): string {
   if (value === null) return 'null';
   if (value === undefined) return 'undefined';
   if (typeof value === 'string') {
     // Truncate very long strings
-    if (value.length > 100) {
-      return `"${value.slice(0, 97)}..."`;
-    }
-    return `"${value}"`;
+    return `"${truncateToWidth(value, charLimit(truncation, 'value'))}"`;
   }
   if (typeof value === 'number' || typeof value === 'boolean') {
     return String(value);
   }
   if (Array.isArray(value)) {
     if (value.length === 0) return '[]';
-    if (value.length <= 3) {
-      return `[${value.map((v) => formatToolParamValue(v)).join(', ')}]`;
+    const items = value
+      .slice(0, truncation.arrayItems)
+      .map((v) => formatToolParamValue(v, truncation));
+    if (value.length <= truncation.arrayItems) {
+      return `[${items.join(', ')}]`;
     }
-    return `[${value
-      .slice(0, 3)
-      .map((v) => formatToolParamValue(v))
-      .join(', ')}, ... +${value.length - 3} more]`;
+    return `[${items.join(', ')}, ... +${value.length - items.length} more]`;
   }
   if (typeof value === 'object') {
     const entries = Object.entries(value);
     if (entries.length === 0) return '{}';
     if (entries.length === 1) {
       const [k, v] = entries[0];
-      return `{ ${k}: ${formatToolParamValue(v)} }`;
+      return `{ ${k}: ${formatToolParamValue(v, truncation)} }`;
     }
     // For complex objects, show in compact JSON
     const json = JSON.stringify(value);
-    if (json.length <= 80) return json;
+    if (stringWidth(json) <= charLimit(truncation, 'json')) return json;
     return `{ ${entries.length} properties }`;
   }
   return String(value);
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'bun:test';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { type FieldBlock, plainText, type ToolCallBlock, toDocument } from '../src/index';
+
+describe('toDocument', () => {
+  it('should describe assistant messages as text and tool call blocks', () => {
+    const message: SDKMessage = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'assistant',
+      message: {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-sonnet',
+        content: [
+          { type: 'text', text: 'Reading it now.' },
+          { type: 'tool_use', id: 'tool_1', name: 'Read', input: { file_path: '/a.txt' } },
+        ],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 5 },
+      } as any,
+      parent_tool_use_id: null,
+    };
+
+    const document = toDocument(message);
+
+    expect(document.type).toBe('assistant');
+    expect(document.header).toEqual({ title: 'ASSISTANT', tone: 'assistant' });
+    expect(document.blocks[0]).toEqual({
+      type: 'text',
+      content: [{ text: 'Reading it now.' }],
+      wrap: true,
+    });
+
+    const toolCall = document.blocks[1] as ToolCallBlock;
+    expect(toolCall.type).toBe('tool_call');
+    expect(toolCall.name).toBe('Read');
+    expect(toolCall.input).toEqual({ file_path: '/a.txt' });
+    expect(toolCall.children).toEqual([
+      { type: 'text', content: [{ text: '/a.txt', bold: true }], indent: 2 },
+    ]);
+  });
+
+  it('should describe tool results with their tool_use_id and error state', () => {
+    const message: SDKMessage = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'tool_1', content: 'boom', is_error: true }],
+      },
+      parent_tool_use_id: null,
+    };
+
+    const document = toDocument(message);
+
+    expect(document.header?.title).toBe('USER (Tool Results)');
+    expect(document.blocks[0]).toMatchObject({
+      type: 'tool_result',
+      toolUseId: 'tool_1',
+      isError: true,
+    });
+  });
+
+  it('should expose result statistics as key/value fields', () => {
+    const message = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'result' as const,
+      subtype: 'success' as const,
+      duration_ms: 2500,
+      duration_api_ms: 2000,
+      is_error: false,
+      num_turns: 3,
+      result: 'Done',
+      total_cost_usd: 0.05,
+      usage: { input_tokens: 100, output_tokens: 50 },
+      modelUsage: {},
+      permission_denials: [],
+    } as any;
+
+    const document = toDocument(message);
+    const fields = document.blocks
+      .flatMap((block) => (block.type === 'section' ? block.children : [block]))
+      .filter((block): block is FieldBlock => block.type === 'field');
+
+    expect(fields.map((field) => [field.label, plainText(field.value)])).toEqual([
+      ['Duration', '2.50s'],
+      ['API Time', '2.00s'],
+      ['Turns', '3'],
+      ['Cost', '$0.0500'],
+      ['Input', '100'],
+      ['Output', '50'],
+    ]);
+  });
+
+  it('should produce header-less documents for stream events', () => {
+    const message: SDKMessage = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'stream_event',
+      event: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi' } },
+      parent_tool_use_id: null,
+    } as any;
+
+    const document = toDocument(message);
+
+    expect(document.header).toBeUndefined();
+    expect(document.blocks).toEqual([{ type: 'text', content: 'Hi' }]);
+  });
+
+  it('should validate messages like formatMessage', () => {
+    expect(() => toDocument({ type: 'assistant' } as any)).toThrow(
+      'Assistant messages require a "message" field'
+    );
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
 import { v4 as uuidv4 } from 'uuid';
-import { formatMessage } from '../../src/index';
+import { type FormatOptions, formatMessage } from '../../src/index';
 
 describe('Assistant Message Formatting', () => {
   const originalColumns = process.stdout.columns;
@@ -101,7 +101,7 @@ describe('Assistant Message Formatting', () => {
     expect(result).toContain('◆ ASSISTANT');
     expect(result).toContain('Let me read that file for you.');
     expect(result).toContain('→ Read');
-    expect(result).toContain('file_path: "/path/to/file.txt"');
+    expect(result).toContain('→ Read\n  /path/to/file.txt');
   });
 
   it('should format thinking content', () => {
@@ -158,7 +158,7 @@ describe('Assistant Message Formatting', () => {
           {
             type: 'tool_use',
             id: 'tool_2',
-            name: 'Write',
+            name: 'SaveFile',
             input: {
               file_path: '/path/to/file.ts',
               content: 'console.log("Hello, World!");',
@@ -181,7 +181,7 @@ describe('Assistant Message Formatting', () => {
 
     const result = formatMessage(message);
 
-    expect(result).toContain('→ Write');
+    expect(result).toContain('→ SaveFile');
     expect(result).toContain('file_path: "/path/to/file.ts"');
     expect(result).toContain('options:');
   });
@@ -223,6 +223,73 @@ describe('Assistant Message Formatting', () => {
     expect(result).not.toContain(longString);
   });
 
+  it('should apply truncation options to tool parameters', () => {
+    const message = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'assistant',
+      message: {
+        id: 'msg_5',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-sonnet',
+        content: [
+          {
+            type: 'tool_use',
+            id: 'tool_3',
+            name: 'Process',
+            input: { text: 'x'.repeat(150), ids: [1, 2, 3, 4, 5] },
+          },
+        ],
+      },
+      parent_tool_use_id: null,
+    } as any;
+
+    const limited = formatMessage(message, {
+      renderer: 'plain',
+      truncation: { maxChars: 10, arrayItems: 2 },
+    });
+    expect(limited).toContain('text: "xxxxxxx..."');
+    expect(limited).toContain('ids: [1, 2, ... +3 more]');
+
+    const unlimited = formatMessage(message, { renderer: 'plain', truncation: 'unlimited' });
+    expect(unlimited.replace(/\s/g, '')).toContain(`text:"${'x'.repeat(150)}"`);
+    expect(unlimited).toContain('ids: [1, 2, 3, 4, 5]');
+  });
+
+  it('should show objects as compact JSON of up to 80 characters', () => {
+    const message = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'assistant',
+      message: {
+        id: 'msg_5',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-sonnet',
+        content: [
+          {
+            type: 'tool_use',
+            id: 'tool_3',
+            name: 'Process',
+            input: {
+              small: { name: 'a', value: 'b' },
+              large: { name: 'a'.repeat(35), value: 'b'.repeat(35) },
+            },
+          },
+        ],
+      },
+      parent_tool_use_id: null,
+    } as any;
+
+    const result = formatMessage(message, { renderer: 'plain' });
+    expect(result).toContain('small: {"name":"a","value":"b"}');
+    expect(result).toContain('large: { 2 properties }');
+    expect(formatMessage(message, { renderer: 'plain', truncation: { maxChars: 100 } })).toContain(
+      `large: {"name":"${'a'.repeat(35)}"`
+    );
+  });
+
   it('should handle null/undefined tool parameters', () => {
     const message: SDKMessage = {
       uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
@@ -265,4 +332,282 @@ describe('Assistant Message Formatting', () => {
     expect(result).toContain('boolean_value: true');
     expect(result).toContain('string_value: "test"');
   });
+
+  it('should show tool calls without input', () => {
+    const message = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'assistant',
+      message: {
+        id: 'msg_edge',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-sonnet',
+        content: [
+          { type: 'tool_use', id: 'tool_1', name: 'Bash' },
+          { type: 'tool_use', id: 'tool_2', name: 'Edit' },
+        ],
+      },
+      parent_tool_use_id: null,
+    } as unknown as SDKMessage;
+
+    const result = formatMessage(message, { renderer: 'plain', showBox: false });
+
+    expect(result).toBe('→ Bash\n\n→ Edit');
+  });
+
+  it('should skip text blocks without text', () => {
+    const message = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'assistant',
+      message: {
+        id: 'msg_edge',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-sonnet',
+        content: [{ type: 'text' }, { type: 'text', text: 'Done.' }],
+      },
+      parent_tool_use_id: null,
+    } as unknown as SDKMessage;
+
+    const result = formatMessage(message, { renderer: 'plain', showBox: false });
+
+    expect(result).toBe('Done.');
+  });
+
+  describe('thinking blocks', () => {
+    const message: SDKMessage = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'assistant',
+      message: {
+        id: 'msg_4',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [
+          {
+            type: 'thinking',
+            thinking: 'The user wants a summary.\nI should read the file first.',
+            signature: 'sig_abc',
+          },
+          { type: 'redacted_thinking', data: 'encrypted' },
+          { type: 'text', text: 'Reading the file now.' },
+        ],
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 20 },
+      } as any,
+      parent_tool_use_id: null,
+    };
+
+    it('should render thinking inline in content order', () => {
+      const result = formatMessage(message, { renderer: 'plain', showBox: false });
+
+      expect(result).toBe(
+        [
+          '[Thinking]',
+          'The user wants a summary.',
+          'I should read the file first.',
+          '[Redacted thinking]',
+          'Reading the file now.',
+        ].join('\n')
+      );
+      expect(result).not.toContain('sig_abc');
+      expect(result).not.toContain('encrypted');
+    });
+
+    it('should collapse thinking to a one-line preview', () => {
+      const result = formatMessage(message, {
+        renderer: 'plain',
+        showBox: false,
+        thinking: 'collapse',
+      });
+
+      expect(result).toContain('[Thinking] The user wants a summary. (2 lines)');
+      expect(result).not.toContain('I should read the file first.');
+    });
+
+    it('should hide thinking', () => {
+      const result = formatMessage(message, {
+        renderer: 'plain',
+        showBox: false,
+        thinking: 'hide',
+      });
+
+      expect(result).toBe('Reading the file now.');
+    });
+  });
+
+  describe('markdown text', () => {
+    const textMessage = (text: string): SDKMessage => ({
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'assistant',
+      message: {
+        id: 'msg_6',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [{ type: 'text', text }],
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 20 },
+      } as any,
+      parent_tool_use_id: null,
+    });
+
+    const markdown = [
+      '## Summary',
+      '',
+      'I updated **two** files and ran `bun test`.',
+      '',
+      '- Fixed the parser',
+      '- Added [docs](https://example.com/docs)',
+      '',
+      '```ts',
+      'const answer = 42;',
+      '```',
+    ].join('\n');
+
+    it('should render Markdown without its syntax', () => {
+      const result = formatMessage(textMessage(markdown), { renderer: 'plain', showBox: false });
+
+      expect(result).toBe(
+        [
+          'Summary',
+          'I updated two files and ran bun test.',
+          '',
+          '• Fixed the parser',
+          '• Added docs (https://example.com/docs)',
+          '',
+          'const answer = 42;',
+        ].join('\n')
+      );
+    });
+
+    it('should keep the Markdown structure in HTML', () => {
+      const result = formatMessage(textMessage(markdown), { renderer: 'html' });
+
+      expect(result).toContain('<strong>two</strong>');
+      expect(result).toContain('<code>bun test</code>');
+      expect(result).toContain('<a href="https://example.com/docs">docs</a>');
+      expect(result).not.toContain('```');
+    });
+
+    it('should draw horizontal rules with the theme border', () => {
+      const message = textMessage('Before\n\n---\n\nAfter');
+      const render = (options: FormatOptions) =>
+        formatMessage(message, { showBox: false, ...options });
+
+      expect(render({ renderer: 'plain' })).toBe(`Before\n\n${'─'.repeat(40)}\n\nAfter`);
+      expect(render({ renderer: 'plain', theme: 'ascii' })).toBe(
+        `Before\n\n${'-'.repeat(40)}\n\nAfter`
+      );
+      expect(render({ renderer: 'markdown' })).toContain('Before\n\n---\n\nAfter');
+      expect(render({ renderer: 'html' })).toContain('<hr>');
+    });
+
+    it('should wrap long paragraphs to the terminal width', () => {
+      const paragraph = Array.from({ length: 30 }, (_, i) => `word${i}`).join(' ');
+      const result = formatMessage(textMessage(paragraph), { renderer: 'plain', showBox: false });
+
+      const lines = result.split('\n');
+      expect(lines.length).toBeGreaterThan(1);
+      expect(lines.every((line) => line.length <= 80)).toBe(true);
+      expect(lines.join(' ')).toBe(paragraph);
+    });
+
+    describe('tables', () => {
+      const table = [
+        '| Name | Size | Notes |',
+        '| :--- | ---: | :-: |',
+        '| `index.ts` | 12 | entry **point** |',
+        '| utils.ts | 3456 | helpers |',
+      ].join('\n');
+
+      it('should draw aligned tables', () => {
+        const result = formatMessage(textMessage(table), { renderer: 'plain', showBox: false });
+
+        expect(result).toBe(
+          [
+            '┌──────────┬──────┬─────────────┐',
+            '│ Name     │ Size │    Notes    │',
+            '├──────────┼──────┼─────────────┤',
+            '│ index.ts │   12 │ entry point │',
+            '│ utils.ts │ 3456 │   helpers   │',
+            '└──────────┴──────┴─────────────┘',
+          ].join('\n')
+        );
+      });
+
+      it('should use the theme border characters', () => {
+        const result = formatMessage(textMessage(table), {
+          renderer: 'plain',
+          showBox: false,
+          theme: 'ascii',
+        });
+
+        expect(result.split('\n')[0]).toBe('+----------+------+-------------+');
+        expect(result).toContain('| index.ts |   12 | entry point |');
+      });
+
+      it('should wrap cells to fit the terminal width', () => {
+        const description = 'Selects the output target of the formatter. '.repeat(3).trim();
+        const result = formatMessage(
+          textMessage(`| Option | Description |\n|---|---|\n| renderer | ${description} |`),
+          { renderer: 'plain', showBox: false }
+        );
+
+        const lines = result.split('\n');
+        expect(lines.every((line) => line.length === 80)).toBe(true);
+        expect(lines[3]).toBe(
+          '│ renderer │ Selects the output target of the formatter. Selects the output    │'
+        );
+        expect(lines[4]).toStartWith('│          │ target of the formatter.');
+      });
+
+      it('should fall back to the raw table when the columns cannot fit', () => {
+        const header = Array.from({ length: 14 }, (_, i) => `column${i}`);
+        const result = formatMessage(
+          textMessage(`| ${header.join(' | ')} |\n|${'---|'.repeat(14)}`),
+          { renderer: 'plain', showBox: false }
+        );
+
+        expect(result).toBe(
+          [`| ${header.join(' | ')} |`, `| ${Array(14).fill('---').join(' | ')} |`].join('\n')
+        );
+      });
+
+      it('should render tables in Markdown and HTML', () => {
+        const markdownResult = formatMessage(textMessage(table), {
+          renderer: 'markdown',
+          showBox: false,
+        });
+        const html = formatMessage(textMessage(table), { renderer: 'html' });
+
+        expect(markdownResult).toBe(
+          [
+            '| Name | Size | Notes |',
+            '| :--- | ---: | :---: |',
+            '| `index.ts` | 12 | entry **point** |',
+            '| utils.ts | 3456 | helpers |',
+          ].join('\n')
+        );
+        expect(html).toContain('<th style="text-align: right">Size</th>');
+        expect(html).toContain('<td style="text-align: center">helpers</td>');
+      });
+    });
+
+    it('should show the text as written when Markdown rendering is off', () => {
+      const result = formatMessage(textMessage(markdown), {
+        renderer: 'plain',
+        showBox: false,
+        markdown: false,
+      });
+
+      expect(result).toBe(markdown);
+    });
+  });
 });
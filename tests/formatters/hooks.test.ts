@@ -48,7 +48,53 @@ describe('Hook Callback Formatters', () => {
     expect(result).toContain('🔧 Pre-Tool Use: Bash');
     expect(result).toContain('Working directory:');
     expect(result).toContain('Tool input:');
-    expect(result).toContain('echo \\"hello world\\"');
+    expect(result).toContain('$ echo "hello world"');
+  });
+
+  it('should show Edit input in PreToolUse hooks as a diff', () => {
+    const message: SDKMessage = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'system',
+      subtype: 'hook_response',
+      hook_name: 'PreToolUse',
+      hook_event: 'PreToolUse',
+      tool_name: 'Edit',
+      tool_input: {
+        file_path: '/work/src/app.ts',
+        old_string: 'const a = 1;',
+        new_string: 'const a = 2;',
+      },
+      cwd: '/work',
+    } as any;
+
+    const result = formatMessage(message, { renderer: 'plain' });
+
+    expect(result).toContain('Tool input:');
+    expect(result).toContain('src/app.ts +1 -1');
+    expect(result).toContain('-const a = 1;');
+    expect(result).toContain('+const a = 2;');
+    expect(result).not.toContain('old_string');
+  });
+
+  it('should highlight JSON tool input in PreToolUse hooks', () => {
+    const message: SDKMessage = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'system',
+      subtype: 'hook_response',
+      hook_name: 'PreToolUse',
+      hook_event: 'PreToolUse',
+      tool_name: 'Deploy',
+      tool_input: { target: 'prod', replicas: 3, dryRun: false },
+    } as any;
+
+    const result = formatMessage(message, { renderer: 'html' });
+
+    expect(result).toContain('<span style="color: #11a8cd">&quot;target&quot;</span>');
+    expect(result).toContain('<span style="color: #0dbc79">&quot;prod&quot;</span>');
+    expect(result).toContain('<span style="color: #b58900">3</span>');
+    expect(result).toContain('<span style="color: #b58900">false</span>');
   });
 
   it('should format PostToolUse hook with response', () => {
@@ -134,4 +134,49 @@ describe('Result Message Formatting', () => {
     expect(result).toContain('Permission Denials: 1');
     expect(result).toContain('• FileSystem (tool_dangerous)');
   });
+
+  it('should render result text as Markdown', () => {
+    const message: SDKMessage = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'result',
+      subtype: 'success',
+      duration_ms: 2000,
+      duration_api_ms: 1500,
+      is_error: false,
+      num_turns: 3,
+      result: 'Done:\n\n- Updated `src/index.ts`\n- Added **tests**',
+      total_cost_usd: 0.005,
+      usage: { input_tokens: 1000, output_tokens: 500 },
+      modelUsage: {},
+      permission_denials: [],
+    };
+
+    const result = formatMessage(message, { renderer: 'plain' });
+
+    expect(result).toContain('• Updated src/index.ts');
+    expect(result).toContain('• Added tests');
+    expect(result).not.toContain('**');
+  });
+
+  it('should show success results without text', () => {
+    const message = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'result',
+      subtype: 'success',
+      duration_ms: 2000,
+      duration_api_ms: 1500,
+      is_error: false,
+      num_turns: 1,
+      total_cost_usd: 0.005,
+      usage: { input_tokens: 1000, output_tokens: 500 },
+      modelUsage: {},
+      permission_denials: [],
+    } as unknown as SDKMessage;
+
+    const result = formatMessage(message, { renderer: 'plain' });
+
+    expect(result).toContain('Result: undefined');
+  });
 });
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
 import { v4 as uuidv4 } from 'uuid';
-import { formatMessage } from '../../src/index';
+import { createSessionRenderer, formatMessage } from '../../src/index';
 
 describe('Stream Event Formatting', () => {
   const originalColumns = process.stdout.columns;
@@ -87,4 +87,127 @@ describe('Stream Event Formatting', () => {
 
     expect(result).toBe('');
   });
+
+  const streamEvent = (event: Record<string, unknown>): SDKMessage =>
+    ({
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'stream_event',
+      event,
+      parent_tool_use_id: null,
+    }) as any;
+
+  it('should buffer tool input until the block stops', () => {
+    const session = createSessionRenderer({ renderer: 'plain' });
+    session.format(
+      streamEvent({
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'tool_use', id: 'toolu_1', name: 'Read', input: {} },
+      })
+    );
+
+    expect(
+      session.format(
+        streamEvent({
+          type: 'content_block_delta',
+          index: 1,
+          delta: { type: 'input_json_delta', partial_json: '{"file_path": ' },
+        })
+      )
+    ).toBe('');
+    session.format(
+      streamEvent({
+        type: 'content_block_delta',
+        index: 1,
+        delta: { type: 'input_json_delta', partial_json: '"/tmp/a.ts"}' },
+      })
+    );
+
+    const result = session.format(streamEvent({ type: 'content_block_stop', index: 1 }));
+    expect(result).toBe('\n\n→ Read\n  /tmp/a.ts (typescript)\n');
+  });
+
+  it('should show the raw input when it is not valid JSON', () => {
+    const session = createSessionRenderer({ renderer: 'plain' });
+    session.format(
+      streamEvent({
+        type: 'content_block_start',
+        index: 0,
+        content_block: { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: {} },
+      })
+    );
+    session.format(
+      streamEvent({
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'input_json_delta', partial_json: '{"command": "ls' },
+      })
+    );
+
+    const result = session.format(streamEvent({ type: 'content_block_stop', index: 0 }));
+    expect(result).toContain('→ Bash');
+    expect(result).toContain('{"command": "ls');
+  });
+
+  it('should pass through input fragments of unknown blocks', () => {
+    const result = formatMessage(
+      streamEvent({
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'input_json_delta', partial_json: '{"a": 1' },
+      })
+    );
+    expect(result).toBe('{"a": 1');
+  });
+
+  it('should surface stop reason and usage from message_delta', () => {
+    const result = formatMessage(
+      streamEvent({
+        type: 'message_delta',
+        delta: { stop_reason: 'tool_use', stop_sequence: null },
+        usage: { output_tokens: 1234 },
+      }),
+      { renderer: 'plain' }
+    );
+    expect(result).toBe('\n[Stopped: tool_use, 1,234 output tokens]');
+  });
+
+  it('should stream expanded thinking and skip signatures', () => {
+    const session = createSessionRenderer({ renderer: 'plain' });
+    const output = [
+      { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } },
+      {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'thinking_delta', thinking: 'Let me check' },
+      },
+      {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'signature_delta', signature: 'sig_abc' },
+      },
+      { type: 'content_block_stop', index: 0 },
+    ]
+      .map((event) => session.format(streamEvent(event)))
+      .join('');
+
+    expect(output).toBe('\n[Thinking]\nLet me check\n');
+  });
+
+  it('should show collapsed thinking once the block stops', () => {
+    const session = createSessionRenderer({ renderer: 'plain', thinking: 'collapse' });
+    const outputs = [
+      { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } },
+      {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'thinking_delta', thinking: 'First\nSecond' },
+      },
+      { type: 'content_block_stop', index: 0 },
+    ].map((event) => session.format(streamEvent(event)));
+
+    expect(outputs.slice(0, 2)).toEqual(['', '']);
+    expect(outputs[2]).toBe('\n[Thinking] First (2 lines)\n');
+  });
 });
@@ -73,6 +73,27 @@ describe('System Message Formatting', () => {
     expect(result).toContain('Skills: javascript, typescript');
   });
 
+  it('should show missing init values instead of failing', () => {
+    const message = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'system',
+      subtype: 'init',
+      model: 'claude-3-sonnet',
+      cwd: '/path/to/project',
+      permissionMode: 'default',
+      apiKeySource: 'temporary',
+      tools: [],
+      mcp_servers: [],
+      slash_commands: [],
+    } as unknown as SDKMessage;
+
+    const result = formatMessage(message);
+
+    expect(result).toContain('Version: undefined');
+    expect(result).toContain('Model: claude-3-sonnet');
+  });
+
   it('should format compact boundary messages', () => {
     const message: SDKMessage = {
       uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
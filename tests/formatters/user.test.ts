@@ -74,6 +74,33 @@ describe('User Message Formatting', () => {
     expect(result).toContain('File content here');
   });
 
+  it('should fold long tool results by the truncation options', () => {
+    const output = Array.from({ length: 60 }, (_, i) => `line ${i + 1}`).join('\n');
+    const message: SDKMessage = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'tool_1', content: output }],
+      },
+      parent_tool_use_id: null,
+    };
+
+    const result = formatMessage(message, {
+      renderer: 'plain',
+      showBox: false,
+      truncation: { maxLines: 5, headLines: 2, tailLines: 2 },
+    });
+
+    expect(result).toBe(
+      ['✓ Tool result: tool_1', 'line 1', 'line 2', '… 56 more lines', 'line 59', 'line 60'].join(
+        '\n'
+      )
+    );
+    expect(formatMessage(message, { truncation: 'unlimited' })).toContain('line 30');
+  });
+
   it('should format tool results with errors', () => {
     const message: SDKMessage = {
       uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
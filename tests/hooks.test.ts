@@ -1,5 +1,10 @@
 import { describe, expect, it, type Mock, mock } from 'bun:test';
-import { createLoggingHooks, createSingleLoggingHook, withLogging } from '../src/hooks';
+import {
+  createLoggingHooks,
+  createSingleLoggingHook,
+  type LoggingHookOptions,
+  withLogging,
+} from '../src/hooks';
 
 // Helper type for mock logger calls
 type MockLogger = Mock<(message: string) => void>;
@@ -111,6 +116,63 @@ describe('Hook Helpers', () => {
       expect(() => JSON.parse(loggedMessage)).not.toThrow();
     });
 
+    it('should format output with the given theme', async () => {
+      const mockLogger = mock(() => {});
+      const hooks = createLoggingHooks({
+        logger: mockLogger,
+        theme: 'ascii',
+        hookTypes: ['PreToolUse'],
+      });
+
+      await hooks.PreToolUse?.[0].hooks[0](
+        { name: 'Read', input: { file_path: 'test.txt' } },
+        'tool-123',
+        { sessionId: 'test-session' }
+      );
+
+      const loggedMessage = getFirstCallArg(mockLogger);
+      expect(loggedMessage).toContain('[pre] Pre-Tool Use: Read');
+      expect(loggedMessage).not.toContain('🔧');
+      expect(loggedMessage).not.toContain('─');
+    });
+
+    it('should truncate long input by the truncation option', async () => {
+      const log = async (truncation?: LoggingHookOptions['truncation']) => {
+        const mockLogger = mock(() => {});
+        const hooks = createLoggingHooks({
+          logger: mockLogger,
+          truncation,
+          hookTypes: ['PreToolUse'],
+        });
+        await hooks.PreToolUse?.[0].hooks[0](
+          { name: 'Translate', input: { text: 'x'.repeat(600) } },
+          'tool-123',
+          {}
+        );
+        return getFirstCallArg(mockLogger).replace(/\s/g, '');
+      };
+
+      expect(await log()).toContain(`"text":"${'x'.repeat(489)}...(truncated)`);
+      expect(await log({ maxChars: 20 })).toContain(`"text":"${'x'.repeat(9)}...(truncated)`);
+      expect(await log('unlimited')).toContain(`"text":"${'x'.repeat(600)}"`);
+    });
+
+    it('should show paths in the given style', async () => {
+      const log = async (paths?: LoggingHookOptions['paths']) => {
+        const mockLogger = mock(() => {});
+        const hooks = createLoggingHooks({ logger: mockLogger, paths, hookTypes: ['PreToolUse'] });
+        await hooks.PreToolUse?.[0].hooks[0](
+          { name: 'Read', input: { file_path: '/work/src/app.ts' } },
+          'tool-123',
+          { cwd: '/work' }
+        );
+        return getFirstCallArg(mockLogger);
+      };
+
+      expect(await log()).toContain('  /work/src/app.ts');
+      expect(await log('relative')).toContain('  src/app.ts (typescript)');
+    });
+
     it('should return empty object from hook callback', async () => {
       const hooks = createLoggingHooks({ hookTypes: ['PreToolUse'] });
 
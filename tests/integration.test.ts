@@ -120,7 +120,7 @@ describe('Integration Tests', () => {
     expect(assistantResult).toContain('◆ ASSISTANT');
     expect(assistantResult).toContain("I'll read the package.json file for you");
     expect(assistantResult).toContain('→ Read');
-    expect(assistantResult).toContain('file_path: "./package.json"');
+    expect(assistantResult).toContain('./package.json (json)');
 
     // Verify tool result message
     expect(toolResultResult).toContain('◆ USER (Tool Results)');
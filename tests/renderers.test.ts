@@ -0,0 +1,268 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { type FormatOptions, formatMessage, type Renderer } from '../src/index';
+
+describe('Renderers', () => {
+  const originalColumns = process.stdout.columns;
+  const originalIsTTY = process.stdout.isTTY;
+
+  beforeEach(() => {
+    Object.defineProperty(process.stdout, 'columns', {
+      value: 80,
+      writable: true,
+    });
+    Object.defineProperty(process.stdout, 'isTTY', {
+      value: false,
+      writable: true,
+    });
+  });
+
+  afterEach(() => {
+    Object.defineProperty(process.stdout, 'columns', {
+      value: originalColumns,
+      writable: true,
+    });
+    Object.defineProperty(process.stdout, 'isTTY', {
+      value: originalIsTTY,
+      writable: true,
+    });
+  });
+
+  const assistantMessage: SDKMessage = {
+    uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+    session_id: 'session-123',
+    type: 'assistant',
+    message: {
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-3-sonnet',
+      content: [
+        { type: 'text', text: 'Use <b>tags</b> & *stars*' },
+        { type: 'tool_use', id: 'tool_1', name: 'Read', input: { file_path: '/tmp/a.txt' } },
+      ],
+      stop_reason: 'tool_use',
+      stop_sequence: null,
+      usage: { input_tokens: 10, output_tokens: 5 },
+    } as any,
+    parent_tool_use_id: null,
+  };
+
+  it('should keep the legacy boolean showBox argument working', () => {
+    const result = formatMessage(assistantMessage, { showBox: false });
+
+    expect(result).toBe(formatMessage(assistantMessage, false));
+    expect(result).not.toContain('◆ ASSISTANT');
+  });
+
+  it('should render plain text without escape codes', () => {
+    const result = formatMessage(assistantMessage, { renderer: 'plain' });
+
+    expect(result).not.toContain('\x1b[');
+    expect(result).toContain('◆ ASSISTANT');
+    expect(result).toContain('→ Read');
+    expect(result).toContain('→ Read\n  /tmp/a.txt');
+    expect(result).toContain('─');
+  });
+
+  it('should render Markdown with a heading and escaped text', () => {
+    const result = formatMessage(assistantMessage, { renderer: 'markdown' });
+
+    expect(result).toStartWith('### ◆ ASSISTANT');
+    expect(result).toContain('\\<b\\>tags\\</b\\> & _stars_');
+    expect(result).toContain('**Read**');
+    expect(result).toContain('**/tmp/a.txt**');
+    expect(result).not.toContain('─');
+  });
+
+  it('should render HTML with escaped text', () => {
+    const result = formatMessage(assistantMessage, { renderer: 'html' });
+
+    expect(result).toStartWith('<section class="claude-message claude-message-assistant">');
+    expect(result).toContain('&lt;b&gt;tags&lt;/b&gt; &amp; <em>stars</em>');
+    expect(result).toContain('<strong>Read</strong>');
+    expect(result).not.toContain('<b>');
+  });
+
+  it('should render equivalent structure for result messages', () => {
+    const message = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'result' as const,
+      subtype: 'success' as const,
+      duration_ms: 1000,
+      duration_api_ms: 800,
+      is_error: false,
+      num_turns: 2,
+      result: 'Done',
+      total_cost_usd: 0.01,
+      usage: { input_tokens: 100, output_tokens: 50 },
+      modelUsage: {},
+      permission_denials: [],
+    } as any;
+
+    for (const renderer of ['ansi', 'plain', 'markdown', 'html'] as const) {
+      const result = formatMessage(message, { renderer });
+      expect(result).toContain('◆ RESULT');
+      expect(result).toContain('Task completed successfully');
+      expect(result).toContain('Duration:');
+      expect(result).toContain('1.00s');
+    }
+  });
+
+  it('should accept a custom renderer', () => {
+    const outline: Renderer = {
+      render: (document, { showBox }) =>
+        `${showBox ? `${document.header?.title}: ` : ''}${document.blocks.map((b) => b.type).join(',')}`,
+    };
+
+    expect(formatMessage(assistantMessage, { renderer: outline })).toBe(
+      'ASSISTANT: text,tool_call'
+    );
+    expect(formatMessage(assistantMessage, { renderer: outline, showBox: false })).toBe(
+      'text,tool_call'
+    );
+  });
+
+  it('should throw for unknown renderer names', () => {
+    expect(() => formatMessage(assistantMessage, { renderer: 'pdf' as any })).toThrow(
+      'Unknown renderer: pdf'
+    );
+  });
+
+  describe('syntax highlighting', () => {
+    const codeMessage = (text: string): SDKMessage => ({
+      ...assistantMessage,
+      message: { ...(assistantMessage as any).message, content: [{ type: 'text', text }] },
+    });
+
+    const span = (color: string, text: string) => `<span style="color: ${color}">${text}</span>`;
+
+    it('should highlight fenced code by its language', () => {
+      const result = formatMessage(
+        codeMessage('```ts\nconst answer = 42; // the answer\nlet name = "x";\n```'),
+        { renderer: 'html' }
+      );
+
+      expect(result).toContain(span('#bc3fbc', 'const'));
+      expect(result).toContain(span('#b58900', '42'));
+      expect(result).toContain(span('#0dbc79', '&quot;x&quot;'));
+      expect(result).toContain(
+        '<span style="color: #767676; font-style: italic">// the answer</span>'
+      );
+    });
+
+    it('should highlight Python, shell and YAML', () => {
+      const python = formatMessage(codeMessage('```python\ndef run():\n    return None\n```'), {
+        renderer: 'html',
+      });
+      const shell = formatMessage(codeMessage('```bash\necho "$HOME" # home\n```'), {
+        renderer: 'html',
+      });
+      const yaml = formatMessage(codeMessage('```yaml\nname: build\non: push\n```'), {
+        renderer: 'html',
+      });
+
+      expect(python).toContain(span('#bc3fbc', 'def'));
+      expect(python).toContain(span('#b58900', 'None'));
+      expect(shell).toContain(span('#0dbc79', '&quot;$HOME&quot;'));
+      expect(shell).toContain('# home</span>');
+      expect(yaml).toContain(span('#11a8cd', 'name'));
+      expect(yaml).toContain(span('#11a8cd', 'on'));
+    });
+
+    it('should not highlight code in unknown languages', () => {
+      const result = formatMessage(codeMessage('```text\nconst answer = 42;\n```'), {
+        renderer: 'html',
+      });
+
+      expect(result).toContain('<code class="language-text">const answer = 42;</code>');
+    });
+
+    it('should follow the theme and keep plain output unstyled', () => {
+      const message = codeMessage('```js\nconst answer = 42;\n```');
+
+      expect(formatMessage(message, { renderer: 'html', theme: 'monochrome' })).toContain(
+        '<span style="font-weight: bold">const</span> answer = 42;'
+      );
+      expect(formatMessage(message, { renderer: 'plain', showBox: false })).toBe(
+        'const answer = 42;'
+      );
+    });
+  });
+
+  describe('box styles', () => {
+    const boxed = (box: FormatOptions['box'], options: FormatOptions = {}) =>
+      formatMessage(assistantMessage, { renderer: 'plain', box, ...options }).split('\n');
+
+    it('should draw side walls with the header in the top border', () => {
+      const lines = boxed({ style: 'rounded', width: 40 });
+
+      expect(lines[0]).toBe(`╭─ ◆ ASSISTANT ${'─'.repeat(24)}╮`);
+      expect(lines[1]).toBe(`│ Use <b>tags</b> & stars${' '.repeat(14)}│`);
+      expect(lines[3]).toBe(`│ → Read${' '.repeat(31)}│`);
+      expect(lines[lines.length - 1]).toBe(`╰${'─'.repeat(38)}╯`);
+      expect(lines.every((line) => line.length === 40)).toBe(true);
+    });
+
+    it('should use the border characters of each style', () => {
+      expect(boxed('single')[0]).toStartWith('┌─ ◆ ASSISTANT');
+      expect(boxed('double')[0]).toStartWith('╔═ ◆ ASSISTANT');
+      expect(boxed('heavy')[0]).toStartWith('┏━ ◆ ASSISTANT');
+      expect(boxed('rules')[0]).toBe('─'.repeat(80));
+      expect(boxed('rounded', { theme: 'ascii' })[0]).toStartWith('+- # ASSISTANT');
+    });
+
+    it('should pad content and wrap it inside the walls', () => {
+      const lines = boxed({ style: 'single', padding: 3, width: 24 });
+
+      expect(lines[1]).toBe('│   Use <b>tags</b>    │');
+      expect(lines[2]).toBe('│   & stars            │');
+    });
+
+    it('should limit the width to maxWidth', () => {
+      expect(boxed({ maxWidth: 30 })[0]).toBe('─'.repeat(30));
+      expect(boxed({ maxWidth: 300 })[0]).toBe('─'.repeat(80));
+      expect(boxed({ width: 100 })[0]).toBe('─'.repeat(100));
+    });
+
+    it('should move headers wider than the box into it', () => {
+      const lines = boxed({ style: 'single', width: 14 });
+
+      expect(lines[0]).toBe(`┌${'─'.repeat(12)}┐`);
+      expect(lines[1]).toBe('│ ◆          │');
+      expect(lines[2]).toBe('│ ASSISTANT  │');
+    });
+
+    it('should not frame messages with the none style', () => {
+      expect(formatMessage(assistantMessage, { renderer: 'plain', box: 'none' })).toBe(
+        formatMessage(assistantMessage, { renderer: 'plain', showBox: false })
+      );
+    });
+
+    it('should throw for unknown box styles', () => {
+      expect(() => formatMessage(assistantMessage, { box: 'fancy' as any })).toThrow(
+        'Unknown box style: fancy'
+      );
+    });
+
+    it('should keep at least a column for the content of tiny boxes', () => {
+      expect(boxed({ style: 'rounded', maxWidth: 3 }).length).toBeGreaterThan(0);
+      expect(boxed({ style: 'single', width: 3 }).length).toBeGreaterThan(0);
+      expect(boxed({ style: 'single', width: 20, padding: 30 }).length).toBeGreaterThan(0);
+    });
+
+    it('should throw for invalid box sizes', () => {
+      expect(() => formatMessage(assistantMessage, { box: { padding: -1 } })).toThrow(
+        'Invalid box padding: -1'
+      );
+      expect(() => formatMessage(assistantMessage, { box: { width: 2.5 } })).toThrow(
+        'Invalid box width: 2.5'
+      );
+      expect(() => formatMessage(assistantMessage, { box: { maxWidth: -10 } })).toThrow(
+        'Invalid box maxWidth: -10'
+      );
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { createSessionRenderer, formatMessage } from '../src/index';
+
+describe('SessionRenderer', () => {
+  const originalColumns = process.stdout.columns;
+  const originalIsTTY = process.stdout.isTTY;
+
+  beforeEach(() => {
+    Object.defineProperty(process.stdout, 'columns', {
+      value: 80,
+      writable: true,
+    });
+    Object.defineProperty(process.stdout, 'isTTY', {
+      value: false,
+      writable: true,
+    });
+  });
+
+  afterEach(() => {
+    Object.defineProperty(process.stdout, 'columns', {
+      value: originalColumns,
+      writable: true,
+    });
+    Object.defineProperty(process.stdout, 'isTTY', {
+      value: originalIsTTY,
+      writable: true,
+    });
+  });
+
+  const initMessage: SDKMessage = {
+    uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+    session_id: 'session-123',
+    type: 'system',
+    subtype: 'init',
+    claude_code_version: '2.0.0',
+    apiKeySource: 'user',
+    cwd: '/home/user/project',
+    tools: ['Read'],
+    mcp_servers: [],
+    model: 'claude-sonnet-4-5',
+    permissionMode: 'default',
+    slash_commands: [],
+    output_style: 'default',
+  } as any;
+
+  const toolUse = (id: string, name: string, input: Record<string, unknown>): SDKMessage =>
+    ({
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'assistant',
+      message: {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [{ type: 'tool_use', id, name, input }],
+      },
+      parent_tool_use_id: null,
+    }) as any;
+
+  const toolResult = (id: string, content: string, isError = false): SDKMessage =>
+    ({
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: id, content, is_error: isError }],
+      },
+      parent_tool_use_id: null,
+    }) as any;
+
+  it('should pair tool results with their calls', () => {
+    const session = createSessionRenderer({ renderer: 'plain', paths: 'relative' });
+    session.format(initMessage);
+    session.format(toolUse('toolu_1', 'Read', { file_path: '/home/user/project/package.json' }));
+
+    const output = session.format(toolResult('toolu_1', 'line 1\nline 2\nline 3\n'));
+    expect(output).toContain('✓ Read package.json (3 lines)');
+    expect(output).not.toContain('Tool result: toolu_1');
+  });
+
+  it('should keep paths outside the session cwd absolute', () => {
+    const session = createSessionRenderer({ renderer: 'plain' });
+    session.format(initMessage);
+    session.format(toolUse('toolu_1', 'Read', { file_path: '/etc/hosts' }));
+
+    expect(session.format(toolResult('toolu_1', 'localhost'))).toContain(
+      '✓ Read /etc/hosts (1 line)'
+    );
+  });
+
+  it('should mark failed tool results', () => {
+    const session = createSessionRenderer({ renderer: 'plain' });
+    session.format(toolUse('toolu_1', 'Bash', { command: 'npm test' }));
+
+    expect(session.format(toolResult('toolu_1', 'exit 1', true))).toContain(
+      '✗ Bash npm test (failed)'
+    );
+  });
+
+  it('should fall back to the tool use id for unknown calls', () => {
+    const session = createSessionRenderer({ renderer: 'plain' });
+    expect(session.format(toolResult('toolu_9', 'ok'))).toContain('✓ Tool result: toolu_9');
+  });
+
+  it('should match stateless formatting for messages without context', () => {
+    const message = toolResult('toolu_1', 'ok');
+    expect(createSessionRenderer().format(message)).toBe(formatMessage(message));
+  });
+
+  it('should remember cwd and model from the init message', () => {
+    const session = createSessionRenderer();
+    session.format(initMessage);
+    expect(session.cwd).toBe('/home/user/project');
+    expect(session.model).toBe('claude-sonnet-4-5');
+
+    session.reset();
+    expect(session.cwd).toBeUndefined();
+  });
+
+  it('should show the model only when it differs from the session model', () => {
+    const session = createSessionRenderer({ renderer: 'plain' });
+    session.format(initMessage);
+    const message = toolUse('toolu_1', 'Read', { file_path: 'a.ts' }) as any;
+
+    expect(session.format(message)).not.toContain('claude-sonnet-4-5');
+    message.message.model = 'claude-opus-4-1';
+    expect(session.format(message)).toContain('ASSISTANT (claude-opus-4-1)');
+  });
+
+  describe('compact mode', () => {
+    const assistant = (content: unknown[]): SDKMessage =>
+      ({
+        ...toolUse('toolu_1', 'Read', {}),
+        message: {
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          model: 'claude-sonnet-4-5',
+          content,
+          usage: { input_tokens: 1234, output_tokens: 56 },
+        },
+      }) as any;
+
+    it('should show a message on a single line', () => {
+      const session = createSessionRenderer({
+        renderer: 'plain',
+        compact: true,
+        paths: 'relative',
+      });
+      session.format(initMessage);
+      const output = session.format(
+        assistant([
+          { type: 'thinking', thinking: 'Which file first?', signature: 'sig' },
+          { type: 'text', text: '## Plan\n\nI will read the **package** file.' },
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'Read',
+            input: { file_path: '/home/user/project/package.json' },
+          },
+          { type: 'tool_use', id: 'toolu_2', name: 'Bash', input: { command: 'npm test' } },
+        ])
+      );
+
+      expect(output).toBe(
+        '◆ ASSISTANT  I will read the package file.  → Read package.json  → Bash npm test  1,234 in · 56 out'
+      );
+    });
+
+    it('should truncate long text to a preview', () => {
+      const session = createSessionRenderer({ renderer: 'plain', compact: true });
+      const output = session.format(assistant([{ type: 'text', text: 'word '.repeat(40) }]));
+
+      expect(output.split('\n')).toHaveLength(1);
+      expect(output).toContain('word wo...  1,234 in');
+    });
+
+    it('should preview messages of only headings or tables', () => {
+      const session = createSessionRenderer({ renderer: 'plain', compact: true });
+
+      expect(session.format(assistant([{ type: 'text', text: '# Summary' }]))).toBe(
+        '◆ ASSISTANT  Summary  1,234 in · 56 out'
+      );
+      expect(
+        session.format(
+          assistant([{ type: 'text', text: '| File | Lines |\n| --- | --- |\n| a.ts | 2 |' }])
+        )
+      ).toBe('◆ ASSISTANT  File Lines a.ts 2  1,234 in · 56 out');
+    });
+
+    it('should count missing token usage as zero', () => {
+      const message = assistant([{ type: 'text', text: 'Done.' }]) as any;
+      message.message.usage = { input_tokens: 10 };
+
+      expect(formatMessage(message, { renderer: 'plain', compact: true })).toBe(
+        '◆ ASSISTANT  Done.  10 in · 0 out'
+      );
+    });
+
+    it('should collapse tool results into status glyphs below their calls', () => {
+      const session = createSessionRenderer({
+        renderer: 'plain',
+        compact: true,
+        paths: 'relative',
+      });
+      session.format(initMessage);
+      session.format(toolUse('toolu_1', 'Read', { file_path: '/home/user/project/a.ts' }));
+      session.format(toolUse('toolu_2', 'Bash', { command: 'npm test' }));
+
+      const message = toolResult('toolu_1', 'one\ntwo') as any;
+      message.message.content.push({
+        type: 'tool_result',
+        tool_use_id: 'toolu_2',
+        content: 'exit 1',
+        is_error: true,
+      });
+      expect(session.format(message)).toBe('  ✓ Read a.ts (2 lines)  ✗ Bash npm test (failed)');
+    });
+
+    it('should show a result with its token counts', () => {
+      const output = formatMessage(
+        {
+          type: 'result',
+          subtype: 'success',
+          result: 'All tests pass',
+          duration_ms: 1000,
+          duration_api_ms: 800,
+          num_turns: 2,
+          total_cost_usd: 0.01,
+          usage: { input_tokens: 5000, output_tokens: 1200 },
+          modelUsage: {},
+          permission_denials: [],
+          is_error: false,
+          uuid: uuidv4(),
+          session_id: 'session-123',
+        } as any,
+        { renderer: 'plain', compact: true }
+      );
+      expect(output).toBe(
+        '◆ RESULT  ✓ Task completed successfully Result: All tests pass  5,000 in · 1,200 out'
+      );
+    });
+
+    it('should skip stream events', () => {
+      const output = formatMessage(
+        {
+          type: 'stream_event',
+          event: {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'text_delta', text: 'Hi' },
+          },
+          parent_tool_use_id: null,
+          uuid: uuidv4(),
+          session_id: 'session-123',
+        } as any,
+        { renderer: 'plain', compact: true }
+      );
+      expect(output).toBe('');
+    });
+  });
+});
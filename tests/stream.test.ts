@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'bun:test';
+import { StreamAccumulator } from '../src/index';
+
+describe('StreamAccumulator', () => {
+  it('should assemble content blocks by index', () => {
+    const stream = new StreamAccumulator();
+    stream.push({ type: 'message_start', message: { usage: { input_tokens: 10 } } });
+    stream.push({
+      type: 'content_block_start',
+      index: 0,
+      content_block: { type: 'text', text: '' },
+    });
+    stream.push({
+      type: 'content_block_start',
+      index: 1,
+      content_block: { type: 'tool_use', id: 'toolu_1', name: 'Glob', input: {} },
+    });
+    stream.push({
+      type: 'content_block_delta',
+      index: 0,
+      delta: { type: 'text_delta', text: 'Look' },
+    });
+    stream.push({
+      type: 'content_block_delta',
+      index: 1,
+      delta: { type: 'input_json_delta', partial_json: '{"pattern":' },
+    });
+    stream.push({
+      type: 'content_block_delta',
+      index: 0,
+      delta: { type: 'text_delta', text: 'ing' },
+    });
+    stream.push({
+      type: 'content_block_delta',
+      index: 1,
+      delta: { type: 'input_json_delta', partial_json: '"*.ts"}' },
+    });
+    stream.push({ type: 'content_block_stop', index: 1 });
+    stream.push({ type: 'content_block_stop', index: 0 });
+    stream.push({
+      type: 'message_delta',
+      delta: { stop_reason: 'tool_use' },
+      usage: { output_tokens: 20 },
+    });
+
+    expect(stream.content()).toEqual([
+      { type: 'text', text: 'Looking' },
+      { type: 'tool_use', id: 'toolu_1', name: 'Glob', input: { pattern: '*.ts' } },
+    ]);
+    expect(stream.stopReason).toBe('tool_use');
+    expect(stream.usage).toEqual({ input_tokens: 10, output_tokens: 20 });
+  });
+
+  it('should leave incomplete blocks out of the content', () => {
+    const stream = new StreamAccumulator();
+    stream.push({
+      type: 'content_block_start',
+      index: 0,
+      content_block: { type: 'text', text: 'Hi' },
+    });
+
+    expect(stream.get(0)?.text).toBe('Hi');
+    expect(stream.content()).toEqual([]);
+  });
+
+  it('should start over on message_start', () => {
+    const stream = new StreamAccumulator();
+    stream.push({
+      type: 'content_block_start',
+      index: 0,
+      content_block: { type: 'text', text: '' },
+    });
+    stream.push({ type: 'message_delta', delta: { stop_reason: 'end_turn' } });
+    stream.push({ type: 'message_start', message: {} });
+
+    expect(stream.get(0)).toBeUndefined();
+    expect(stream.stopReason).toBeUndefined();
+  });
+
+  it('should assemble thinking blocks with their signature', () => {
+    const stream = new StreamAccumulator();
+    stream.push({
+      type: 'content_block_start',
+      index: 0,
+      content_block: { type: 'thinking', thinking: '' },
+    });
+    stream.push({
+      type: 'content_block_delta',
+      index: 0,
+      delta: { type: 'thinking_delta', thinking: 'Hmm' },
+    });
+    stream.push({
+      type: 'content_block_delta',
+      index: 0,
+      delta: { type: 'signature_delta', signature: 'sig_abc' },
+    });
+    stream.push({ type: 'content_block_stop', index: 0 });
+
+    expect(stream.content()).toEqual([{ type: 'thinking', thinking: 'Hmm', signature: 'sig_abc' }]);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { createSessionRenderer, formatMessage, resolveTheme, themes } from '../src/index';
+
+describe('Themes', () => {
+  const originalColumns = process.stdout.columns;
+  const originalIsTTY = process.stdout.isTTY;
+
+  beforeEach(() => {
+    Object.defineProperty(process.stdout, 'columns', {
+      value: 80,
+      writable: true,
+    });
+    Object.defineProperty(process.stdout, 'isTTY', {
+      value: false,
+      writable: true,
+    });
+  });
+
+  afterEach(() => {
+    Object.defineProperty(process.stdout, 'columns', {
+      value: originalColumns,
+      writable: true,
+    });
+    Object.defineProperty(process.stdout, 'isTTY', {
+      value: originalIsTTY,
+      writable: true,
+    });
+  });
+
+  const resultMessage = {
+    uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+    session_id: 'session-123',
+    type: 'result' as const,
+    subtype: 'success' as const,
+    duration_ms: 1000,
+    duration_api_ms: 800,
+    is_error: false,
+    num_turns: 1,
+    result: 'Done',
+    total_cost_usd: 0.01,
+    usage: { input_tokens: 100, output_tokens: 50 },
+    modelUsage: {},
+    permission_denials: [],
+  } as any;
+
+  const hookMessage: SDKMessage = {
+    uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+    session_id: 'session-123',
+    type: 'system',
+    subtype: 'hook_response',
+    hook_name: 'SessionStart',
+    hook_event: 'SessionStart',
+    source: 'startup',
+  } as any;
+
+  it('should use the default theme when none is given', () => {
+    expect(formatMessage(resultMessage)).toBe(formatMessage(resultMessage, { theme: 'default' }));
+  });
+
+  it('should replace emoji and box-drawing characters with the ascii theme', () => {
+    const result = formatMessage(hookMessage, { theme: 'ascii' });
+
+    expect(result).toContain('# SYSTEM');
+    expect(result).toContain('[start] Session Started (startup)');
+    expect(result).toContain('-'.repeat(80));
+    expect(result).not.toContain('🚀');
+    expect(result).not.toContain('─');
+  });
+
+  it('should use ascii separators, ranges and fold markers with the ascii theme', () => {
+    const toolUse = (id: string, name: string, input: Record<string, unknown>): SDKMessage =>
+      ({
+        uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+        session_id: 'session-123',
+        type: 'assistant',
+        message: {
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          model: 'claude-sonnet-4-5',
+          content: [{ type: 'tool_use', id, name, input }],
+        },
+        parent_tool_use_id: null,
+      }) as any;
+    const session = createSessionRenderer({ renderer: 'plain', showBox: false, theme: 'ascii' });
+
+    expect(session.format(toolUse('toolu_1', 'mcp__github__create_issue', {}))).toBe(
+      '-> github > create_issue'
+    );
+    expect(
+      session.format(toolUse('toolu_2', 'Read', { file_path: 'a.ts', offset: 10, limit: 5 }))
+    ).toContain('a.ts (lines 10-14, typescript)');
+
+    session.format(toolUse('toolu_3', 'Bash', { command: 'seq 100' }));
+    const output = Array.from({ length: 100 }, (_, i) => String(i + 1)).join('\n');
+    const result = session.format({
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'toolu_3', content: output }],
+      },
+      parent_tool_use_id: null,
+    } as any);
+    expect(result).toContain('  ... 84 more lines');
+    expect(result).not.toContain('…');
+  });
+
+  it('should apply theme colors in renderers that support them', () => {
+    const defaultHtml = formatMessage(resultMessage, { renderer: 'html' });
+    const monochromeHtml = formatMessage(resultMessage, { renderer: 'html', theme: 'monochrome' });
+
+    expect(defaultHtml).toContain('color: #bc3fbc');
+    expect(monochromeHtml).not.toContain('color:');
+    expect(monochromeHtml).toContain('font-weight: bold');
+  });
+
+  it('should merge overrides onto the default theme', () => {
+    const theme = resolveTheme({ icons: { success: 'OK' }, colors: { success: ['greenBright'] } });
+
+    expect(theme.icons.success).toBe('OK');
+    expect(theme.icons.error).toBe(themes.default.icons.error);
+    expect(theme.colors.success).toEqual(['greenBright']);
+    expect(theme.colors.error).toEqual(themes.default.colors.error);
+
+    const result = formatMessage(resultMessage, { theme: { icons: { success: 'OK' } } });
+    expect(result).toContain('OK Task completed successfully');
+  });
+
+  it('should throw for unknown theme names', () => {
+    expect(() => formatMessage(resultMessage, { theme: 'neon' as any })).toThrow(
+      'Unknown theme: neon'
+    );
+  });
+});
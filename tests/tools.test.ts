@@ -0,0 +1,1202 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  createSessionRenderer,
+  type FormatOptions,
+  formatMessage,
+  type PathStyle,
+  parseMcpToolName,
+  registerToolRenderer,
+} from '../src/index';
+
+describe('Tool Rendering', () => {
+  const originalColumns = process.stdout.columns;
+  const originalIsTTY = process.stdout.isTTY;
+
+  beforeEach(() => {
+    Object.defineProperty(process.stdout, 'columns', {
+      value: 80,
+      writable: true,
+    });
+    Object.defineProperty(process.stdout, 'isTTY', {
+      value: false,
+      writable: true,
+    });
+  });
+
+  afterEach(() => {
+    Object.defineProperty(process.stdout, 'columns', {
+      value: originalColumns,
+      writable: true,
+    });
+    Object.defineProperty(process.stdout, 'isTTY', {
+      value: originalIsTTY,
+      writable: true,
+    });
+  });
+
+  const initMessage: SDKMessage = {
+    uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+    session_id: 'session-123',
+    type: 'system',
+    subtype: 'init',
+    claude_code_version: '2.0.0',
+    apiKeySource: 'user',
+    cwd: '/work',
+    tools: [],
+    mcp_servers: [],
+    model: 'claude-sonnet-4-5',
+    permissionMode: 'default',
+    slash_commands: [],
+    output_style: 'default',
+  } as any;
+
+  const toolUse = (
+    id: string,
+    name: string,
+    input: Record<string, unknown>,
+    parent: string | null = null
+  ): SDKMessage =>
+    ({
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'assistant',
+      message: {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [{ type: 'tool_use', id, name, input }],
+      },
+      parent_tool_use_id: parent,
+    }) as any;
+
+  const toolResult = (id: string, content: string, isError = false): SDKMessage =>
+    ({
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: id, content, is_error: isError }],
+      },
+      parent_tool_use_id: null,
+    }) as any;
+
+  const render = (message: SDKMessage) =>
+    formatMessage(message, { renderer: 'plain', showBox: false });
+
+  describe('Edit', () => {
+    it('should show the edit as a diff with counts', () => {
+      const result = render(
+        toolUse('toolu_1', 'Edit', {
+          file_path: 'src/app.ts',
+          old_string: 'const a = 1;\nconst b = 2;',
+          new_string: 'const a = 1;\nconst b = 3;\nconst c = 4;',
+        })
+      );
+
+      expect(result).toBe(
+        [
+          '→ Edit',
+          '  src/app.ts +2 -1',
+          '   const a = 1;',
+          '  -const b = 2;',
+          '  +const b = 3;',
+          '  +const c = 4;',
+        ].join('\n')
+      );
+    });
+
+    it('should not truncate long strings', () => {
+      const long = 'x'.repeat(300);
+      const result = render(
+        toolUse('toolu_1', 'Edit', { file_path: 'a.txt', old_string: long, new_string: `${long}y` })
+      );
+
+      expect(result).toContain(`+${long}y`);
+    });
+
+    it('should note replace_all', () => {
+      const result = render(
+        toolUse('toolu_1', 'Edit', {
+          file_path: 'a.txt',
+          old_string: 'foo',
+          new_string: 'bar',
+          replace_all: true,
+        })
+      );
+
+      expect(result).toContain('a.txt +1 -1 (all occurrences)');
+    });
+
+    it('should use line numbers once the file content is known', () => {
+      const session = createSessionRenderer({
+        renderer: 'plain',
+        showBox: false,
+        paths: 'relative',
+      });
+      session.format(initMessage);
+      session.format(toolUse('toolu_1', 'Read', { file_path: '/work/notes.txt' }));
+      session.format(
+        toolResult('toolu_1', '     1→one\n     2→two\n     3→three\n     4→four\n     5→five\n')
+      );
+
+      const result = session.format(
+        toolUse('toolu_2', 'Edit', {
+          file_path: '/work/notes.txt',
+          old_string: 'four',
+          new_string: 'FOUR',
+        })
+      );
+
+      expect(result).toBe(
+        [
+          '→ Edit',
+          '  notes.txt +1 -1',
+          '  @@ -1,5 +1,5 @@',
+          '   one',
+          '   two',
+          '   three',
+          '  -four',
+          '  +FOUR',
+          '   five',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('MultiEdit', () => {
+    it('should show each edit', () => {
+      const result = render(
+        toolUse('toolu_1', 'MultiEdit', {
+          file_path: 'a.txt',
+          edits: [
+            { old_string: 'one', new_string: '1' },
+            { old_string: 'two', new_string: '2' },
+          ],
+        })
+      );
+
+      expect(result).toBe(
+        [
+          '→ MultiEdit',
+          '  a.txt +2 -2 (2 edits)',
+          '  -one',
+          '  +1',
+          '  ...',
+          '  -two',
+          '  +2',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('Write', () => {
+    it('should show the content when the previous content is unknown', () => {
+      const result = render(toolUse('toolu_1', 'Write', { file_path: 'a.txt', content: 'hi' }));
+
+      expect(result).toBe(['→ Write', '  a.txt (1 line)', '    hi'].join('\n'));
+    });
+
+    it('should diff against the content from an earlier Write', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(toolUse('toolu_1', 'Write', { file_path: '/a.txt', content: 'a\nb\n' }));
+      session.format(toolResult('toolu_1', 'File created'));
+
+      const result = session.format(
+        toolUse('toolu_2', 'Write', { file_path: '/a.txt', content: 'a\nc\n' })
+      );
+
+      expect(result).toContain('/a.txt +1 -1');
+      expect(result).toContain('@@ -1,2 +1,2 @@');
+    });
+
+    it('should forget content after failed edits', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(toolUse('toolu_1', 'Write', { file_path: '/a.txt', content: 'a\n' }));
+      session.format(toolResult('toolu_1', 'File created'));
+      session.format(
+        toolUse('toolu_2', 'Edit', { file_path: '/a.txt', old_string: 'zzz', new_string: 'y' })
+      );
+      session.format(toolResult('toolu_2', 'ok'));
+
+      const result = session.format(
+        toolUse('toolu_3', 'Write', { file_path: '/a.txt', content: 'b' })
+      );
+      expect(result).toContain('/a.txt (1 line)\n    b');
+      expect(result).not.toContain('@@');
+    });
+  });
+
+  describe('Bash', () => {
+    it('should show the command with its description and flags', () => {
+      const result = render(
+        toolUse('toolu_1', 'Bash', {
+          command: 'npm test',
+          description: 'Run the test suite',
+          timeout: 120000,
+          run_in_background: true,
+        })
+      );
+
+      expect(result).toBe(
+        ['→ Bash', '  $ npm test', '  Run the test suite [timeout 2m, background]'].join('\n')
+      );
+    });
+
+    it('should show output and exit status of the correlated result', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(toolUse('toolu_1', 'Bash', { command: 'ls' }));
+
+      expect(session.format(toolResult('toolu_1', 'a.txt\nb.txt'))).toBe(
+        ['✓ Bash ls (2 lines)', '  a.txt', '  b.txt', '  exit 0'].join('\n')
+      );
+    });
+
+    it('should separate stderr and show the exit code of failed commands', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(toolUse('toolu_1', 'Bash', { command: 'make' }));
+
+      const result = session.format(
+        toolResult(
+          'toolu_1',
+          'Exit code 2\n<stdout>building</stdout>\n<stderr>make: *** missing target</stderr>',
+          true
+        )
+      );
+
+      expect(result).toBe(
+        [
+          '✗ Bash make (failed)',
+          '  building',
+          '  stderr:',
+          '  make: *** missing target',
+          '  exit 2',
+        ].join('\n')
+      );
+      expect(result).not.toContain('Error in tool execution');
+    });
+
+    it('should fold long output to its head and tail', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(toolUse('toolu_1', 'Bash', { command: 'seq 100' }));
+
+      const output = Array.from({ length: 100 }, (_, i) => String(i + 1)).join('\n');
+      const result = session.format(toolResult('toolu_1', output));
+
+      expect(result).toContain('  8\n  … 84 more lines\n  93');
+      expect(result).not.toContain('  50\n');
+    });
+
+    it('should fold output by the truncation options', () => {
+      const output = Array.from({ length: 100 }, (_, i) => String(i + 1)).join('\n');
+      const render = (truncation: FormatOptions['truncation']) => {
+        const session = createSessionRenderer({ renderer: 'plain', showBox: false, truncation });
+        session.format(toolUse('toolu_1', 'Bash', { command: 'seq 100' }));
+        return session.format(toolResult('toolu_1', output));
+      };
+
+      expect(render({ headLines: 2, tailLines: 1 })).toContain(
+        '  1\n  2\n  … 97 more lines\n  100'
+      );
+      expect(render({ maxLines: 100 })).not.toContain('more lines');
+      expect(render({ headLines: 3, tailLines: 0 })).toContain('  3\n  … 97 more lines\n  exit 0');
+
+      const unlimited = render('unlimited');
+      expect(unlimited).toContain('  50\n');
+      expect(unlimited).not.toContain('more lines');
+    });
+
+    it('should render structured PostToolUse responses', () => {
+      const message: SDKMessage = {
+        uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+        session_id: 'session-123',
+        type: 'system',
+        subtype: 'hook_response',
+        hook_name: 'PostToolUse',
+        hook_event: 'PostToolUse',
+        tool_name: 'Bash',
+        tool_input: { command: 'git status' },
+        tool_response: { stdout: 'clean', stderr: 'warning: x', interrupted: false },
+      } as any;
+
+      const result = render(message);
+      expect(result).toContain('Tool response:\n  clean\n  stderr:\n  warning: x\n  exit 0');
+    });
+  });
+
+  describe('TodoWrite', () => {
+    const todos = [
+      { content: 'Read the code', status: 'completed', activeForm: 'Reading the code' },
+      { content: 'Fix the bug', status: 'in_progress', activeForm: 'Fixing the bug' },
+      { content: 'Run tests', status: 'pending', activeForm: 'Running tests' },
+    ];
+
+    it('should show todos as a checklist', () => {
+      const result = render(toolUse('toolu_1', 'TodoWrite', { todos }));
+
+      expect(result).toBe(
+        [
+          '→ TodoWrite',
+          '  1/3 completed',
+          '  ✓ Read the code',
+          '  ◐ Fix the bug',
+          '  ○ Run tests',
+        ].join('\n')
+      );
+    });
+
+    it('should summarize changes since the previous list', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(toolUse('toolu_1', 'TodoWrite', { todos }));
+
+      const result = session.format(
+        toolUse('toolu_2', 'TodoWrite', {
+          todos: [
+            todos[0],
+            { ...todos[1], status: 'completed' },
+            { ...todos[2], status: 'completed' },
+            { content: 'Update docs', status: 'pending', activeForm: 'Updating docs' },
+          ],
+        })
+      );
+
+      expect(result).toContain('3/4 completed · 2 completed, 1 added');
+    });
+
+    it('should use the ascii theme icons', () => {
+      const result = formatMessage(toolUse('toolu_1', 'TodoWrite', { todos }), {
+        renderer: 'plain',
+        showBox: false,
+        theme: 'ascii',
+      });
+
+      expect(result).toContain('  + Read the code\n  > Fix the bug\n  o Run tests');
+    });
+  });
+
+  describe('Task', () => {
+    const input = {
+      subagent_type: 'Explore',
+      description: 'Find config files',
+      prompt: 'Look for configuration files\nand list them.',
+    };
+
+    it('should show the subagent type, description and prompt', () => {
+      expect(render(toolUse('toolu_1', 'Task', input))).toBe(
+        [
+          '→ Task',
+          '  Explore: Find config files',
+          '  Look for configuration files',
+          '  and list them.',
+        ].join('\n')
+      );
+    });
+
+    it('should nest subagent messages and summarize the subagent', () => {
+      const session = createSessionRenderer({ renderer: 'plain' });
+      session.format(toolUse('toolu_1', 'Task', input));
+
+      const nested = session.format(toolUse('toolu_2', 'Glob', { pattern: '*.json' }, 'toolu_1'));
+      for (const line of nested.split('\n')) {
+        expect(line.startsWith('│ ')).toBe(true);
+      }
+      expect(nested).toContain('│ ◆ ASSISTANT');
+
+      session.format(toolUse('toolu_3', 'Task', input, 'toolu_1'));
+      expect(
+        session.format(toolUse('toolu_4', 'Read', { file_path: 'a.json' }, 'toolu_3'))
+      ).toContain('│ │ ◆ ASSISTANT');
+
+      const result = session.format(toolResult('toolu_1', 'Found tsconfig.json'));
+      expect(result).toContain('✓ Task Find config files (1 line)');
+      expect(result).toContain('Explore finished · 2 tool uses · 2 messages');
+      expect(result).toContain('Found tsconfig.json');
+      expect(result).not.toContain('│');
+    });
+
+    it('should fold long subagent reports', () => {
+      const session = createSessionRenderer({
+        renderer: 'plain',
+        showBox: false,
+        truncation: { maxLines: 4, headLines: 1, tailLines: 1 },
+      });
+      session.format(toolUse('toolu_1', 'Task', input));
+
+      const report = Array.from({ length: 10 }, (_, i) => `finding ${i + 1}`).join('\n');
+      expect(session.format(toolResult('toolu_1', report))).toContain(
+        '  finding 1\n  … 8 more lines\n  finding 10'
+      );
+    });
+
+    it('should mark subagent messages in stateless formatting', () => {
+      const document = formatMessage(toolUse('toolu_2', 'Glob', { pattern: '*' }, 'toolu_1'), {
+        renderer: 'markdown',
+      });
+      expect(document.startsWith('> ### ◆ ASSISTANT')).toBe(true);
+    });
+  });
+
+  describe('Read', () => {
+    it('should show the path, range and language', () => {
+      const session = createSessionRenderer({
+        renderer: 'plain',
+        showBox: false,
+        paths: 'relative',
+      });
+      session.format(initMessage);
+      const result = session.format(
+        toolUse('toolu_1', 'Read', { file_path: '/work/src/app.ts', offset: 10, limit: 50 })
+      );
+
+      expect(result).toBe(['→ Read', '  src/app.ts (lines 10–59, typescript)'].join('\n'));
+    });
+
+    it('should fold long file content and drop trailing notes', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(toolUse('toolu_1', 'Read', { file_path: 'a.txt' }));
+      const content = Array.from(
+        { length: 30 },
+        (_, i) => `${String(i + 1).padStart(6)}→line ${i + 1}`
+      );
+      const result = session.format(
+        toolResult('toolu_1', `${content.join('\n')}\n\n<system-reminder>note</system-reminder>`)
+      );
+
+      expect(result).toContain('     8→line 8\n  … 14 more lines\n      23→line 23');
+      expect(result).not.toContain('system-reminder');
+    });
+  });
+
+  describe('Glob and Grep', () => {
+    const search = (name: string, input: Record<string, unknown>, output: string) => {
+      const session = createSessionRenderer({
+        renderer: 'plain',
+        showBox: false,
+        paths: 'relative',
+      });
+      session.format(initMessage);
+      session.format(toolUse('toolu_1', name, input));
+      return session.format(toolResult('toolu_1', output));
+    };
+
+    it('should show the Glob pattern and list the files relative to the cwd', () => {
+      const result = search(
+        'Glob',
+        { pattern: '**/*.ts', path: '/work/src' },
+        '/work/src/a.ts\n/work/src/b.ts'
+      );
+
+      expect(result).toBe(
+        ['✓ Glob src (2 lines)', '  2 files', '    • src/a.ts', '    • src/b.ts'].join('\n')
+      );
+    });
+
+    it('should show the Grep pattern, path and options', () => {
+      const result = render(
+        toolUse('toolu_1', 'Grep', {
+          pattern: 'TODO',
+          path: 'src',
+          glob: '*.ts',
+          output_mode: 'content',
+          '-i': true,
+        })
+      );
+
+      expect(result).toBe(['→ Grep', '  TODO in src (*.ts, content, case-insensitive)'].join('\n'));
+    });
+
+    it('should summarize Grep content output per file', () => {
+      const result = search(
+        'Grep',
+        { pattern: 'TODO', output_mode: 'content', '-n': true },
+        [
+          '/work/a.ts:1:// TODO one',
+          '/work/a.ts-2-context',
+          '--',
+          '/work/a.ts:9:// TODO two',
+          '/work/b.ts:3:// TODO: three',
+        ].join('\n')
+      );
+
+      expect(result).toContain('  3 matches in 2 files\n    • a.ts (2)\n    • b.ts (1)');
+    });
+
+    it('should count matches of single-file Grep content output', () => {
+      const result = search(
+        'Grep',
+        { pattern: 'x', path: '/work/a.ts', output_mode: 'content' },
+        'const x: number = 1;\nreturn x;'
+      );
+
+      expect(result).toContain('  2 matches in 1 file\n    • a.ts (2)');
+    });
+
+    it('should read line numbers of single-file Grep content output', () => {
+      const result = search(
+        'Grep',
+        { pattern: 'x', path: '/work/a.ts', output_mode: 'content', '-C': 1 },
+        ['12:const x = 1;', '13-const y = 2;', '--', '30:return x;', '41:x++;'].join('\n')
+      );
+
+      expect(result).toContain('  3 matches in 1 file\n    • a.ts (3)');
+    });
+
+    it('should list the files of structured PostToolUse responses', () => {
+      const hook = (name: string, input: Record<string, unknown>, response: unknown) =>
+        formatMessage(
+          {
+            uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+            session_id: 'session-123',
+            type: 'system',
+            subtype: 'hook_response',
+            hook_name: 'PostToolUse',
+            hook_event: 'PostToolUse',
+            tool_name: name,
+            tool_input: input,
+            tool_response: response,
+            cwd: '/work',
+          } as any,
+          { renderer: 'plain', showBox: false, paths: 'relative' }
+        );
+
+      expect(
+        hook(
+          'Glob',
+          { pattern: '*.ts' },
+          { filenames: ['/work/a.ts', '/work/b.ts'], numFiles: 2, truncated: false }
+        )
+      ).toContain('  2 files\n    • a.ts\n    • b.ts');
+      expect(
+        hook(
+          'Grep',
+          { pattern: 'x' },
+          { mode: 'files_with_matches', filenames: ['/work/a.ts'], numFiles: 3 }
+        )
+      ).toContain('  1 file\n    • a.ts\n  (2 more files not listed)');
+      expect(hook('Glob', { pattern: '*.ts' }, { durationMs: 3 })).not.toContain('No matches');
+    });
+
+    it('should summarize Grep counts and files', () => {
+      expect(
+        search(
+          'Grep',
+          { pattern: 'x', output_mode: 'count' },
+          '/work/a.ts:4\n/work/b.ts:1\n\nFound 5 total occurrences across 2 files.'
+        )
+      ).toContain('  5 matches in 2 files\n    • a.ts (4)\n    • b.ts (1)');
+
+      expect(search('Grep', { pattern: 'x' }, 'Found 1 file\n/work/a.ts')).toContain(
+        '  1 file\n    • a.ts'
+      );
+      expect(search('Grep', { pattern: 'x' }, 'No files found')).toContain('  No matches');
+    });
+
+    it('should fold long file lists', () => {
+      const files = Array.from({ length: 25 }, (_, i) => `/work/f${i}.ts`);
+      const result = search('Glob', { pattern: '*.ts' }, files.join('\n'));
+
+      expect(result).toContain('    • f19.ts\n    … 5 more files');
+    });
+
+    it('should make the file list expandable in HTML and Markdown', () => {
+      const session = createSessionRenderer({ renderer: 'html' });
+      session.format(toolUse('toolu_1', 'Glob', { pattern: '*.ts' }));
+      expect(session.format(toolResult('toolu_1', 'a.ts'))).toContain(
+        '<details class="claude-list">\n<summary><span style="opacity: 0.7">1 file</span></summary>\n<ul>'
+      );
+
+      const markdown = createSessionRenderer({ renderer: 'markdown' });
+      markdown.format(toolUse('toolu_1', 'Glob', { pattern: '*.ts' }));
+      expect(markdown.format(toolResult('toolu_1', 'a.ts'))).toContain(
+        '<details>\n<summary>1 file</summary>\n\n- a.ts\n\n</details>'
+      );
+    });
+  });
+
+  describe('ExitPlanMode', () => {
+    const plan = [
+      '# Refactor',
+      '',
+      'Split the **parser** into:',
+      '',
+      '1. A `lexer`',
+      '2. A parser',
+      '   - [x] grammar',
+      '3. Tests',
+      '',
+      '```ts',
+      'const a = 1;',
+      '```',
+    ].join('\n');
+
+    it('should render the plan as a Markdown section', () => {
+      const result = render(toolUse('toolu_1', 'ExitPlanMode', { plan }));
+
+      expect(result).toBe(
+        [
+          '→ ExitPlanMode',
+          '',
+          'PLAN',
+          '',
+          '  Refactor',
+          '  Split the parser into:',
+          '',
+          '  1. A lexer',
+          '  2. A parser',
+          '    ✓ grammar',
+          '  3. Tests',
+          '',
+          '  const a = 1;',
+        ].join('\n')
+      );
+    });
+
+    it('should not truncate long plans', () => {
+      const long = `Step ${'x'.repeat(200)}`;
+      const result = render(toolUse('toolu_1', 'ExitPlanMode', { plan: long }));
+      expect(result.replace(/\s+/g, '')).toContain(long.replace(/\s+/g, ''));
+    });
+
+    it('should keep headings and code in Markdown output', () => {
+      const result = formatMessage(toolUse('toolu_1', 'ExitPlanMode', { plan }), {
+        renderer: 'markdown',
+      });
+
+      expect(result).toContain('**Refactor**');
+      expect(result).toContain('1. A `lexer`\n2. A parser');
+      expect(result).toContain('```ts\nconst a = 1;\n```');
+    });
+
+    it('should show the approval decision', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(toolUse('toolu_1', 'ExitPlanMode', { plan }));
+      const result = session.format(
+        toolResult('toolu_1', 'User has approved your plan. You can now start coding.')
+      );
+
+      expect(result).toBe(['✓ ExitPlanMode (1 line)', '  Plan approved'].join('\n'));
+    });
+
+    it('should show the rejection with the user feedback', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(toolUse('toolu_1', 'ExitPlanMode', { plan }));
+      const result = session.format(
+        toolResult(
+          'toolu_1',
+          "The user doesn't want to proceed with this tool use. The tool use was rejected. To tell you how to proceed, the user said:\nKeep the parser as is",
+          true
+        )
+      );
+
+      expect(result).toBe(
+        ['✗ ExitPlanMode (failed)', '  Plan rejected', '    Keep the parser as is'].join('\n')
+      );
+    });
+  });
+
+  describe('NotebookEdit', () => {
+    it('should show a replaced cell with its source', () => {
+      const session = createSessionRenderer({
+        renderer: 'plain',
+        showBox: false,
+        paths: 'relative',
+      });
+      session.format(initMessage);
+      const result = session.format(
+        toolUse('toolu_1', 'NotebookEdit', {
+          notebook_path: '/work/analysis.ipynb',
+          cell_id: 'cell-3',
+          cell_type: 'code',
+          new_source: 'import pandas as pd\ndf = pd.read_csv("data.csv")\n',
+        })
+      );
+
+      expect(result).toBe(
+        [
+          '→ NotebookEdit',
+          '  Replace code cell cell-3 in analysis.ipynb',
+          '    import pandas as pd',
+          '    df = pd.read_csv("data.csv")',
+        ].join('\n')
+      );
+    });
+
+    it('should show where cells are inserted', () => {
+      const after = render(
+        toolUse('toolu_1', 'NotebookEdit', {
+          notebook_path: 'a.ipynb',
+          cell_id: 'cell-1',
+          cell_type: 'markdown',
+          edit_mode: 'insert',
+          new_source: '# Results',
+        })
+      );
+      expect(after).toContain('  Insert markdown cell after cell-1 in a.ipynb\n    # Results');
+
+      const first = render(
+        toolUse('toolu_1', 'NotebookEdit', {
+          notebook_path: 'a.ipynb',
+          cell_type: 'code',
+          edit_mode: 'insert',
+          new_source: 'x = 1',
+        })
+      );
+      expect(first).toContain('  Insert code cell at start in a.ipynb');
+    });
+
+    it('should not show a source for deleted cells', () => {
+      const result = render(
+        toolUse('toolu_1', 'NotebookEdit', {
+          notebook_path: 'a.ipynb',
+          cell_id: 'cell-2',
+          edit_mode: 'delete',
+          new_source: '',
+        })
+      );
+
+      expect(result).toBe(['→ NotebookEdit', '  Delete code cell cell-2 in a.ipynb'].join('\n'));
+    });
+
+    it('should tag the source with the cell language', () => {
+      const result = formatMessage(
+        toolUse('toolu_1', 'NotebookEdit', {
+          notebook_path: 'a.ipynb',
+          cell_id: 'cell-1',
+          cell_type: 'code',
+          new_source: 'x = 1',
+        }),
+        { renderer: 'markdown' }
+      );
+
+      expect(result).toContain('```python\nx = 1\n```');
+    });
+  });
+
+  describe('registerToolRenderer', () => {
+    const queryRenderer = {
+      renderInput: (input: Record<string, unknown>) => [
+        { type: 'text' as const, content: `SQL: ${input.sql}`, indent: 2 },
+      ],
+      renderResult: ({ text }: { text: string }) => [
+        { type: 'text' as const, content: `${text.split('\n').length} rows`, indent: 2 },
+      ],
+    };
+
+    it('should render calls and results of a tool registered by name', () => {
+      const unregister = registerToolRenderer('mcp__db__query', queryRenderer);
+      try {
+        const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+        expect(session.format(toolUse('toolu_1', 'mcp__db__query', { sql: 'select 1' }))).toBe(
+          '→ db › query\n  SQL: select 1'
+        );
+        expect(session.format(toolResult('toolu_1', 'a\nb'))).toContain('  2 rows');
+      } finally {
+        unregister();
+      }
+    });
+
+    it('should match tool names against patterns', () => {
+      const unregister = registerToolRenderer(/^mcp__db__/g, queryRenderer);
+      try {
+        expect(render(toolUse('toolu_1', 'mcp__db__query', { sql: 'a' }))).toContain('SQL: a');
+        expect(render(toolUse('toolu_2', 'mcp__db__exec', { sql: 'b' }))).toContain('SQL: b');
+        expect(render(toolUse('toolu_3', 'mcp__web__get', { sql: 'c' }))).not.toContain('SQL:');
+      } finally {
+        unregister();
+      }
+    });
+
+    it('should take precedence over built-in renderers until unregistered', () => {
+      const unregister = registerToolRenderer('Bash', queryRenderer);
+      const call = toolUse('toolu_1', 'Bash', { command: 'ls', sql: 'x' });
+      try {
+        expect(render(call)).toBe('→ Bash\n  SQL: x');
+      } finally {
+        unregister();
+      }
+      expect(render(call)).toBe('→ Bash\n  $ ls');
+    });
+
+    it('should apply to PreToolUse and PostToolUse hooks', () => {
+      const unregister = registerToolRenderer('mcp__db__query', queryRenderer);
+      const hook = (event: string, data: Record<string, unknown>) =>
+        formatMessage(
+          {
+            uuid: uuidv4(),
+            session_id: 'session-123',
+            type: 'system',
+            subtype: 'hook_response',
+            hook_name: event,
+            hook_event: event,
+            tool_name: 'mcp__db__query',
+            tool_input: { sql: 'select 1' },
+            ...data,
+          } as any,
+          { renderer: 'plain' }
+        );
+      try {
+        expect(hook('PreToolUse', {})).toContain('SQL: select 1');
+        expect(hook('PostToolUse', { tool_response: 'a\nb\nc' })).toContain('3 rows');
+      } finally {
+        unregister();
+      }
+    });
+  });
+
+  describe('Path styles', () => {
+    const home = homedir();
+    const project = join(home, 'project');
+    const init = { ...initMessage, cwd: project } as SDKMessage;
+
+    const session = (paths?: PathStyle) => {
+      const renderer = createSessionRenderer({ renderer: 'plain', showBox: false, paths });
+      return { renderer, init: renderer.format(init) };
+    };
+
+    it('should keep paths as given by default', () => {
+      const { renderer } = session();
+      renderer.format(toolUse('toolu_1', 'Read', { file_path: join(project, 'src/a.ts') }));
+
+      expect(renderer.format(toolResult('toolu_1', '     1→x'))).toContain(
+        `✓ Read ${join(project, 'src/a.ts')}`
+      );
+    });
+
+    it('should show paths inside the cwd relative to it', () => {
+      const { renderer } = session('relative');
+      renderer.format(toolUse('toolu_1', 'Read', { file_path: join(project, 'src/a.ts') }));
+
+      expect(renderer.format(toolResult('toolu_1', '     1→x'))).toContain('✓ Read src/a.ts');
+    });
+
+    it('should shorten the home directory with the short style', () => {
+      const { renderer, init: output } = session('short');
+      expect(output).toContain('Working Directory: ~/project');
+
+      const notes = join(home, 'notes/todo.md');
+      expect(renderer.format(toolUse('toolu_1', 'Read', { file_path: notes }))).toContain(
+        '→ Read\n  ~/notes/todo.md'
+      );
+      expect(renderer.format(toolUse('toolu_2', 'Export', { output_path: notes }))).toContain(
+        'output_path: "~/notes/todo.md"'
+      );
+      expect(renderer.format(toolUse('toolu_3', 'Read', { file_path: '/etc/hosts' }))).toContain(
+        '/etc/hosts'
+      );
+    });
+
+    it('should keep paths as given with the absolute style', () => {
+      const { renderer, init: output } = session('absolute');
+      expect(output).toContain(`Working Directory: ${project}`);
+
+      renderer.format(toolUse('toolu_1', 'Read', { file_path: join(project, 'src/a.ts') }));
+      expect(renderer.format(toolResult('toolu_1', '     1→x'))).toContain(
+        `✓ Read ${join(project, 'src/a.ts')}`
+      );
+    });
+
+    it('should shorten hook paths', () => {
+      const result = formatMessage(
+        {
+          uuid: uuidv4(),
+          session_id: 'session-123',
+          type: 'system',
+          subtype: 'hook_response',
+          hook_name: 'SessionStart',
+          hook_event: 'SessionStart',
+          source: 'startup',
+          cwd: project,
+          transcript_path: join(home, '.claude/projects/p/session.jsonl'),
+        } as any,
+        { renderer: 'plain', paths: 'short' }
+      );
+
+      expect(result).toContain('Transcript: ~/.claude/projects/p/session.jsonl');
+      expect(result).toContain('Working directory: ~/project');
+    });
+
+    it('should reject unknown path styles', () => {
+      expect(() => formatMessage(initMessage, { paths: 'tilde' as PathStyle })).toThrow(
+        'Unknown path style: tilde'
+      );
+    });
+  });
+
+  describe('MCP tools', () => {
+    const init = (status: string) =>
+      ({ ...initMessage, mcp_servers: [{ name: 'github', status }] }) as SDKMessage;
+
+    it('should show the server and tool separately', () => {
+      const result = render(toolUse('toolu_1', 'mcp__github__create_issue', { title: 'Bug' }));
+
+      expect(result).toBe('→ github › create_issue\n  title: "Bug"');
+    });
+
+    it('should show the known status of servers', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(init('failed'));
+      expect(session.format(toolUse('toolu_1', 'mcp__github__create_issue', {}))).toBe(
+        '→ github › create_issue (failed)'
+      );
+
+      const connected = createSessionRenderer({ renderer: 'plain', showBox: false });
+      connected.format(init('connected'));
+      expect(connected.format(toolUse('toolu_1', 'mcp__github__create_issue', {}))).toBe(
+        '→ github › create_issue (connected)'
+      );
+    });
+
+    it('should keep underscores in server and tool names', () => {
+      expect(parseMcpToolName('mcp__my_server__list__all')).toEqual({
+        server: 'my_server',
+        tool: 'list__all',
+      });
+      expect(parseMcpToolName('Bash')).toBeUndefined();
+    });
+
+    it('should show the server and tool in results and hooks', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(toolUse('toolu_1', 'mcp__github__create_issue', { title: 'Bug' }));
+      expect(session.format(toolResult('toolu_1', 'Created #1'))).toBe(
+        '✓ github › create_issue (1 line)\nCreated #1'
+      );
+
+      const hook = formatMessage(
+        {
+          uuid: uuidv4(),
+          session_id: 'session-123',
+          type: 'system',
+          subtype: 'hook_response',
+          hook_name: 'PreToolUse',
+          hook_event: 'PreToolUse',
+          tool_name: 'mcp__github__create_issue',
+          tool_input: { title: 'Bug' },
+        } as any,
+        { renderer: 'plain' }
+      );
+      expect(hook).toContain('Pre-Tool Use: github › create_issue');
+    });
+
+    it('should group MCP tool usage by server in the session result', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(toolUse('toolu_1', 'mcp__github__create_issue', {}));
+      session.format(toolUse('toolu_2', 'mcp__github__create_issue', {}));
+      session.format(toolUse('toolu_3', 'mcp__github__get_pr', {}));
+      session.format(toolUse('toolu_4', 'mcp__linear__search', {}));
+      session.format(toolUse('toolu_5', 'Bash', { command: 'ls' }));
+
+      const resultMessage = {
+        uuid: uuidv4(),
+        session_id: 'session-123',
+        type: 'result',
+        subtype: 'success',
+        duration_ms: 1000,
+        duration_api_ms: 800,
+        is_error: false,
+        num_turns: 2,
+        result: 'Done',
+        total_cost_usd: 0.01,
+        usage: { input_tokens: 10, output_tokens: 20 },
+        modelUsage: {},
+        permission_denials: [],
+      } as any;
+      const result = session.format(resultMessage);
+
+      expect(result).toContain(
+        [
+          'MCP Tools:',
+          '  github: 3 calls (create_issue ×2, get_pr)',
+          '  linear: 1 call (search)',
+        ].join('\n')
+      );
+      expect(formatMessage(resultMessage, { renderer: 'plain' })).not.toContain('MCP Tools');
+    });
+  });
+
+  describe('Web tools', () => {
+    it('should show the domain, URL and prompt of WebFetch', () => {
+      const result = render(
+        toolUse('toolu_1', 'WebFetch', {
+          url: 'https://docs.example.com/guide',
+          prompt: 'Summarize the guide',
+        })
+      );
+
+      expect(result).toBe(
+        [
+          '→ WebFetch',
+          '  docs.example.com https://docs.example.com/guide',
+          '  Summarize the guide',
+        ].join('\n')
+      );
+    });
+
+    it('should show the query and domain filters of WebSearch', () => {
+      const result = render(
+        toolUse('toolu_1', 'WebSearch', {
+          query: 'bun test runner',
+          allowed_domains: ['bun.sh'],
+          blocked_domains: ['example.com', 'spam.com'],
+        })
+      );
+
+      expect(result).toBe(
+        [
+          '→ WebSearch',
+          '  Search: bun test runner',
+          '  Only: bun.sh',
+          '  Excluding: example.com, spam.com',
+        ].join('\n')
+      );
+    });
+
+    it('should number WebSearch results', () => {
+      const session = createSessionRenderer({ renderer: 'plain', showBox: false });
+      session.format(toolUse('toolu_1', 'WebSearch', { query: 'bun' }));
+
+      const links = [
+        { title: 'Bun', url: 'https://bun.sh' },
+        { title: 'Bun docs', url: 'https://bun.sh/docs' },
+      ];
+      const result = session.format(
+        toolResult(
+          'toolu_1',
+          `Web search results for query: "bun"\n\nLinks: ${JSON.stringify(links)}\n\nBun is fast.`
+        )
+      );
+
+      expect(result).toContain(
+        [
+          '  2 results',
+          '  1. Bun',
+          '     https://bun.sh',
+          '  2. Bun docs',
+          '     https://bun.sh/docs',
+          '  Web search results for query: "bun"',
+          '',
+          '  Bun is fast.',
+        ].join('\n')
+      );
+    });
+
+    it('should fold long WebSearch summaries', () => {
+      const session = createSessionRenderer({
+        renderer: 'plain',
+        showBox: false,
+        truncation: { maxLines: 4, headLines: 2, tailLines: 0 },
+      });
+      session.format(toolUse('toolu_1', 'WebSearch', { query: 'bun' }));
+
+      const summary = Array.from({ length: 10 }, (_, i) => `Fact ${i + 1}.`).join('\n');
+      const result = session.format(toolResult('toolu_1', summary));
+
+      expect(result).toContain('  Fact 1.\n  Fact 2.\n  … 8 more lines');
+      expect(result).not.toContain('Fact 10.');
+    });
+
+    const serverSearch: SDKMessage = {
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'assistant',
+      message: {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [
+          {
+            type: 'server_tool_use',
+            id: 'srvtoolu_1',
+            name: 'web_search',
+            input: { query: 'bun' },
+          },
+          {
+            type: 'web_search_tool_result',
+            tool_use_id: 'srvtoolu_1',
+            content: [
+              {
+                type: 'web_search_result',
+                title: 'Bun',
+                url: 'https://bun.sh',
+                encrypted_content: 'x',
+              },
+            ],
+          },
+          { type: 'text', text: 'Bun is a JavaScript runtime.' },
+        ],
+      },
+      parent_tool_use_id: null,
+    } as any;
+
+    it('should render WebSearch responses of PostToolUse hooks', () => {
+      const hook = (response: unknown) =>
+        render({
+          uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+          session_id: 'session-123',
+          type: 'system',
+          subtype: 'hook_response',
+          hook_name: 'PostToolUse',
+          hook_event: 'PostToolUse',
+          tool_name: 'WebSearch',
+          tool_input: { query: 'bun' },
+          tool_response: response,
+        } as any);
+
+      const result = hook({
+        query: 'bun',
+        results: [
+          { tool_use_id: 'srvtoolu_1', content: [{ title: 'Bun', url: 'https://bun.sh' }] },
+          'Bun is fast.',
+        ],
+      });
+      expect(result).toContain(
+        ['  1 result', '  1. Bun', '     https://bun.sh', '  Bun is fast.'].join('\n')
+      );
+
+      const unknown = hook({ query: 'bun', durationSeconds: 1 });
+      expect(unknown).not.toContain('0 results');
+      expect(unknown).toContain('durationSeconds');
+    });
+
+    it('should render server-side web search results', () => {
+      expect(render(serverSearch)).toBe(
+        [
+          '→ web_search',
+          '  Search: bun',
+          '',
+          '✓ web_search bun',
+          '  1 result',
+          '  1. Bun',
+          '     https://bun.sh',
+          'Bun is a JavaScript runtime.',
+        ].join('\n')
+      );
+    });
+
+    it('should link results in Markdown and HTML', () => {
+      expect(formatMessage(serverSearch, { renderer: 'markdown' })).toContain(
+        '1. **Bun**  \n[https://bun.sh](https://bun.sh)'
+      );
+      expect(formatMessage(serverSearch, { renderer: 'html' })).toContain(
+        '<a href="https://bun.sh">https://bun.sh</a>'
+      );
+    });
+
+    it('should use OSC 8 hyperlinks when supported', () => {
+      const original = process.env.FORCE_HYPERLINK;
+      process.env.FORCE_HYPERLINK = '1';
+      try {
+        expect(formatMessage(serverSearch)).toContain('\u001b]8;;https://bun.sh\u001b\\');
+      } finally {
+        if (original === undefined) delete process.env.FORCE_HYPERLINK;
+        else process.env.FORCE_HYPERLINK = original;
+      }
+      expect(formatMessage(serverSearch)).not.toContain('\u001b]8;;');
+    });
+  });
+});
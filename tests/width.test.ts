@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { formatMessage, stringWidth, truncateToWidth, wrapLine } from '../src/index';
+
+describe('Text Width', () => {
+  const originalColumns = process.stdout.columns;
+  const originalIsTTY = process.stdout.isTTY;
+
+  beforeEach(() => {
+    Object.defineProperty(process.stdout, 'columns', {
+      value: 40,
+      writable: true,
+    });
+    Object.defineProperty(process.stdout, 'isTTY', {
+      value: false,
+      writable: true,
+    });
+  });
+
+  afterEach(() => {
+    Object.defineProperty(process.stdout, 'columns', {
+      value: originalColumns,
+      writable: true,
+    });
+    Object.defineProperty(process.stdout, 'isTTY', {
+      value: originalIsTTY,
+      writable: true,
+    });
+  });
+
+  const toolUse = (input: Record<string, unknown>): SDKMessage =>
+    ({
+      uuid: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
+      session_id: 'session-123',
+      type: 'assistant',
+      message: {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'Translate', input }],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 5 },
+      },
+      parent_tool_use_id: null,
+    }) as any;
+
+  it('should measure the visible width of text', () => {
+    expect(stringWidth('plain')).toBe(5);
+    expect(stringWidth('\u001b[31mred\u001b[39m')).toBe(3);
+    expect(stringWidth('\u001b]8;;https://bun.sh\u001b\\Bun\u001b]8;;\u001b\\')).toBe(3);
+    expect(stringWidth('日本語')).toBe(6);
+    expect(stringWidth('🚀 go')).toBe(5);
+    expect(stringWidth('▶️')).toBe(2);
+    expect(stringWidth('é')).toBe(1);
+    expect(stringWidth('👨‍👩‍👧')).toBe(2);
+  });
+
+  it('should truncate by width without splitting characters', () => {
+    expect(truncateToWidth('short', 10)).toBe('short');
+    expect(truncateToWidth('日本語のテキスト', 9)).toBe('日本語...');
+    expect(truncateToWidth('🚀🚀🚀🚀', 7, '…')).toBe('🚀🚀🚀…');
+  });
+
+  it('should wrap lines below the value of key: value lines', () => {
+    expect(wrapLine('  query: one two three four five', 20)).toEqual([
+      '  query: one two',
+      '         three four',
+      '         five',
+    ]);
+    expect(wrapLine('    abcdefghijklmnop', 10)).toEqual(['    abcdef', '    ghijkl', '    mnop']);
+  });
+
+  it('should reopen styles on wrapped lines', () => {
+    expect(wrapLine('\u001b[31mred red red\u001b[39m', 8)).toEqual([
+      '\u001b[31mred red\u001b[0m',
+      '\u001b[31mred\u001b[39m',
+    ]);
+  });
+
+  it('should wrap boxed content to the terminal width', () => {
+    const result = formatMessage(toolUse({ text: '翻訳してください'.repeat(3), to: 'en' }), {
+      renderer: 'plain',
+    });
+
+    const lines = result.split('\n');
+    expect(lines.every((line) => stringWidth(line) <= 40)).toBe(true);
+    expect(lines).toContain('  to: "en"');
+    expect(lines.slice(3, 5)).toEqual([
+      '  text: "翻訳してください翻訳してくださ',
+      '        い翻訳してください"',
+    ]);
+  });
+
+  it('should expand tabs to the next tab stop', () => {
+    expect(wrapLine('a\tb', 20)).toEqual(['a       b']);
+    expect(wrapLine('\u001b[31mab\u001b[39m\tc', 20)).toEqual(['\u001b[31mab\u001b[39m      c']);
+
+    const result = formatMessage(toolUse({ text: 'name\tvalue\tnote' }), {
+      renderer: 'plain',
+      box: 'single',
+    });
+    const lines = result.split('\n');
+    expect(lines).toContain(`│   text: "name   value   note"${' '.repeat(8)}│`);
+    expect(lines.every((line) => stringWidth(line) === 40)).toBe(true);
+  });
+
+  it('should truncate long parameters by width', () => {
+    const result = formatMessage(toolUse({ text: '字'.repeat(80) }), {
+      renderer: 'plain',
+      showBox: false,
+    });
+
+    expect(result).toContain(`"${'字'.repeat(48)}..."`);
+  });
+});